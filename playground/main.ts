@@ -11,7 +11,7 @@ $form.replaceChildren($text, $submit, document.createElement('br'), $langSelect,
 
 $form.onsubmit = e => {
   e.preventDefault()
-  synthesis.speak($text.value, { lang: $langSelect.value as any, name: $nameSelect.value as any })
+  synthesis.speak($text.value, { lang: $langSelect.value, name: $nameSelect.value })
 }
 
 synthesis.getVoices().then(voices => {
@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+/**
+ * Generates the voice catalog module from a directory of voice dumps.
+ *
+ * Each dump is the JSON copied from running `copy(getVoicesTypeString())` on a browser console,
+ * dumps of the same browser and system are merged, so contributing one more is just a matter of
+ * dropping the file in the directory and running:
+ *
+ *   node scripts/generate-voices.js [dumps directory] [output module]
+ */
+const fs = require('fs')
+const path = require('path')
+
+const [dir = 'voices', output = 'src/voices.ts'] = process.argv.slice(2)
+
+const voiceKeys = ['browser', 'os', 'lang', 'name', 'localService', 'voiceURI']
+
+const readDumps = dir =>
+  fs
+    .readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const dump = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'))
+      for (const key of ['browser', 'os', 'voices'])
+        if (!(key in dump)) throw new Error(`${file}: missing '${key}'`)
+      return dump
+    })
+
+const merge = dumps => {
+  const voices = new Map()
+
+  for (const { browser, browserVersion, os, osVersion, voices: dumped } of dumps)
+    for (const { lang, name, localService, voiceURI } of dumped) {
+      const voice = { browser, os, lang, name, localService, voiceURI }
+      const key = JSON.stringify(voiceKeys.map(k => voice[k]))
+      const known = voices.get(key) || { ...voice, browserVersions: [], osVersions: [] }
+
+      if (browserVersion && !known.browserVersions.includes(browserVersion))
+        known.browserVersions.push(browserVersion)
+      if (osVersion && !known.osVersions.includes(osVersion)) known.osVersions.push(osVersion)
+
+      voices.set(key, known)
+    }
+
+  const compare = (a, b) => (a < b ? -1 : a > b ? 1 : 0)
+
+  return [...voices.values()]
+    .map(voice => ({
+      ...voice,
+      browserVersions: voice.browserVersions.sort(),
+      osVersions: voice.osVersions.sort(),
+    }))
+    .sort((a, b) => voiceKeys.reduce((acc, k) => acc || compare(a[k], b[k]), 0))
+}
+
+const literal = value =>
+  typeof value !== 'string'
+    ? String(value)
+    : value.includes("'") && !value.includes('"')
+    ? JSON.stringify(value)
+    : `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+
+const typeName = value => `${value[0].toUpperCase()}${value.slice(1).replace(/\W/g, '')}Voice`
+
+const render = voices => {
+  const unique = key => [...new Set(voices.map(voice => voice[key]))]
+
+  const types = voices.map(voice =>
+    [
+      '  | {',
+      ...voiceKeys.map(k => `      ${k}: ${literal(voice[k])}`),
+      '      browserVersions: readonly string[]',
+      '      osVersions: readonly string[]',
+      '    }',
+    ].join('\n')
+  )
+
+  const entries = voices.map(voice =>
+    [
+      '  {',
+      ...voiceKeys.map(k => `    ${k}: ${literal(voice[k])},`),
+      `    browserVersions: [${voice.browserVersions.map(literal).join(', ')}],`,
+      `    osVersions: [${voice.osVersions.map(literal).join(', ')}],`,
+      '  },',
+    ].join('\n')
+  )
+
+  const unions = key =>
+    unique(key).map(
+      value => `export type ${typeName(value)} = Extract<BrowserVoice, { ${key}: ${literal(value)} }>`
+    )
+
+  return [
+    '// Generated by scripts/generate-voices.js from the dumps in voices/, do not edit by hand.',
+    '',
+    '/**',
+    ' * The possible voices for the browser, typed here so we can get autocomplete. Spelled out rather',
+    ' * than taken from `voiceCatalog`, so declarations refer to it by name instead of inlining it.',
+    ' */',
+    'export type BrowserVoice =',
+    ...types,
+    '',
+    '/**',
+    ' * Every voice seen on the dumps, with the browser and system versions it was seen on.',
+    ' *',
+    ' * May not coincide with the voices on the user browser, it is only as good as the dumps.',
+    ' */',
+    'export const voiceCatalog: readonly BrowserVoice[] = [',
+    ...entries,
+    ']',
+    '',
+    ...unions('browser'),
+    '',
+    ...unions('os'),
+    '',
+  ].join('\n')
+}
+
+const voices = merge(readDumps(dir))
+fs.writeFileSync(output, render(voices))
+console.log(`${output}: ${voices.length} voices`)
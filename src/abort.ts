@@ -0,0 +1,58 @@
+import { AbortError, SpeechError, TimeoutError } from './errors'
+
+/** Ways to give up on a `listen` or a `speak`, durations in milliseconds since the call */
+export type AbortOptions = {
+  /** Aborts the engine and rejects with an `AbortError` */
+  signal?: AbortSignal
+  /** Aborts and rejects with a `TimeoutError` if not over by then */
+  timeout?: number
+  /**
+   * Aborts and rejects with a `TimeoutError` if nothing was heard, or for synthesis, if it hasn't
+   * started speaking by then
+   */
+  initialSilenceTimeout?: number
+  /** Stops gracefully, recognition keeps what was heard so far and speech ends as cancelled */
+  maxDuration?: number
+}
+
+/**
+ * Arms the signal and timers of `options`. `heard` disarms the initial silence timeout, and
+ * `dispose` everything, once the listen or speak is over.
+ */
+export const watchAbort = <O extends AbortOptions>(
+  options: O,
+  on: { abort: (error: SpeechError<O>) => void; stop: () => void }
+) => {
+  const { signal, timeout, initialSilenceTimeout, maxDuration } = options
+  const timers: ReturnType<typeof setTimeout>[] = []
+
+  const dispose = () => {
+    timers.forEach(clearTimeout)
+    signal?.removeEventListener('abort', onAbort)
+  }
+  const abort = (error: SpeechError<O>) => {
+    dispose()
+    on.abort(error)
+  }
+  const onAbort = () => abort(new AbortError((signal as { reason?: unknown }).reason, options))
+  const after = (ms: number | undefined, callback: () => void) => {
+    if (ms === undefined) return
+    const timer = setTimeout(callback, ms)
+    timers.push(timer)
+    return timer
+  }
+
+  const silence = after(initialSilenceTimeout, () =>
+    abort(new TimeoutError('initialSilenceTimeout', initialSilenceTimeout!, options))
+  )
+  after(timeout, () => abort(new TimeoutError('timeout', timeout!, options)))
+  after(maxDuration, on.stop)
+
+  if (signal?.aborted) Promise.resolve().then(onAbort)
+  else signal?.addEventListener('abort', onAbort)
+
+  return {
+    heard: () => clearTimeout(silence!),
+    dispose,
+  }
+}
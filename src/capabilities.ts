@@ -0,0 +1,56 @@
+import { createWebSpeechEngine, WebRecognitionTarget, WebSpeechTarget } from './engine'
+
+export type Capabilities = {
+  synthesis: boolean
+  /** `'unprefixed'` for the standard `SpeechRecognition`, `'prefixed'` for `webkitSpeechRecognition` */
+  recognition: false | 'unprefixed' | 'prefixed'
+  /** Whether recognition takes the `continuous` option */
+  continuous: boolean
+  /** Whether recognition takes the `interimResults` option */
+  interimResults: boolean
+  /** Whether synthesis can be paused and resumed, on Android pausing cancels instead */
+  pauseResume: boolean
+  /** How many voices synthesis has, 0 if they didn't load within `voicesTimeout` */
+  voiceCount: number
+}
+
+export type CapabilitiesTarget = Partial<WebSpeechTarget & WebRecognitionTarget> & {
+  navigator?: { userAgent: string }
+}
+
+/**
+ * What the environment supports, safe to call anywhere, it just reports nothing is supported on
+ * Node or during server rendering. Only the voice count needs to wait, for the voices to load.
+ */
+export const capabilities = async (
+  target: CapabilitiesTarget = globalThis,
+  voicesTimeout = 1000
+): Promise<Capabilities> => {
+  const synthesis = !!target.speechSynthesis && !!target.SpeechSynthesisUtterance
+  const SpeechRecognition = target.SpeechRecognition ?? target.webkitSpeechRecognition
+  const prototype = SpeechRecognition?.prototype ?? {}
+
+  return {
+    synthesis,
+    recognition: target.SpeechRecognition
+      ? 'unprefixed'
+      : target.webkitSpeechRecognition
+      ? 'prefixed'
+      : false,
+    continuous: 'continuous' in prototype,
+    interimResults: 'interimResults' in prototype,
+    pauseResume: synthesis && !/Android/i.test(target.navigator?.userAgent ?? ''),
+    voiceCount: synthesis ? await countVoices(target as WebSpeechTarget, voicesTimeout) : 0,
+  }
+}
+
+const countVoices = (target: WebSpeechTarget, timeout: number) => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  return Promise.race([
+    createWebSpeechEngine(target)
+      .getVoices()
+      .then(voices => voices.length),
+    new Promise<number>(resolve => (timer = setTimeout(() => resolve(0), timeout))),
+  ]).finally(() => clearTimeout(timer))
+}
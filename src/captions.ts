@@ -0,0 +1,192 @@
+/** A caption, times in milliseconds since the start of the recording */
+export type Cue = { start: number; end: number; text: string }
+
+export type CaptionOptions = {
+  /**
+   * Characters per line
+   *
+   * @default 42
+   */
+  maxLineLength: number
+  /**
+   * Lines per cue
+   *
+   * @default 2
+   */
+  maxLines: number
+  /**
+   * The longest a cue stays on screen, in milliseconds
+   *
+   * @default 7000
+   */
+  maxDuration: number
+  /**
+   * Milliseconds of silence that start a new cue
+   *
+   * @default 1000
+   */
+  pause: number
+  /**
+   * `performance.now()` when the recording started, by default when the engine of the first event
+   * did
+   */
+  origin?: number
+}
+
+/**
+ * What captions need of an event, so a JSON log of `subscribe` or `session` events works as well.
+ * Only `final` results are taken, the others can be given too.
+ */
+export type CaptionEvent = {
+  tag: string
+  time?: number
+  offset?: number
+  alternatives?: Array<{ transcript: string }>
+  speechStart?: number
+  speechEnd?: number
+}
+
+type Word = { text: string; start: number; end: number }
+
+/** Speaking rate to estimate how long a result took to say, when the engine didn't tell */
+const msPerCharacter = 60
+
+/**
+ * Splits timed final results into cues, by line length, duration and pauses. The words of a result
+ * are spread over its speech, in proportion to their length:
+ *
+ * ```ts
+ * const builder = captions({ maxLineLength: 32 })
+ * recognition.session().subscribe({ next: builder.add })
+ * // later
+ * download('lecture.vtt', builder.toVtt())
+ * ```
+ */
+export class CaptionBuilder {
+  private words: Word[] = []
+  private origin?: number
+
+  constructor(readonly options: CaptionOptions) {
+    this.origin = options.origin
+  }
+
+  add = (e: CaptionEvent) => {
+    const text = e.alternatives?.[0]?.transcript.trim()
+    if (e.tag !== 'final' || !text) return this
+
+    const { time = 0, offset = 0 } = e
+    const engineStart = time - offset
+    if (this.origin === undefined) this.origin = engineStart
+
+    const words = text.split(/\s+/)
+    const end = e.speechEnd ?? offset
+    const start = Math.min(e.speechStart ?? offset, end)
+    const span = end > start ? end - start : text.length * msPerCharacter
+    const from = engineStart - this.origin + end - span
+
+    let before = 0
+    for (const word of words) {
+      this.words.push({
+        text: word,
+        start: from + (span * before) / text.length,
+        end: from + (span * (before + word.length)) / text.length,
+      })
+      before += word.length + 1
+    }
+    return this
+  }
+
+  get cues(): Cue[] {
+    const { maxLineLength, maxLines, maxDuration, pause } = this.options
+    const groups: Word[][] = []
+
+    for (const word of [...this.words].sort((a, b) => a.start - b.start)) {
+      const group = groups[groups.length - 1]
+      if (
+        !group ||
+        word.start - group[group.length - 1].end > pause ||
+        word.end - group[0].start > maxDuration ||
+        lines([...group, word], maxLineLength).length > maxLines
+      )
+        groups.push([word])
+      else group.push(word)
+    }
+
+    return groups.map((group, i) => ({
+      start: group[0].start,
+      // no overlaps, the next cue replaces this one
+      end: Math.min(group[group.length - 1].end, groups[i + 1]?.[0].start ?? Infinity),
+      text: lines(group, maxLineLength).join('\n'),
+    }))
+  }
+
+  toVtt = () => toVtt(this.cues)
+
+  toSrt = () => toSrt(this.cues)
+}
+
+export const captions = (options: Partial<CaptionOptions> = {}) =>
+  new CaptionBuilder({ maxLineLength: 42, maxLines: 2, maxDuration: 7000, pause: 1000, ...options })
+
+export const toVtt = (cues: Cue[]) =>
+  [
+    'WEBVTT',
+    ...cues.map(cue => `${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}\n${cue.text}`),
+  ]
+    .join('\n\n')
+    .concat('\n')
+
+export const toSrt = (cues: Cue[]) =>
+  cues
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${timestamp(cue.start, ',')} --> ${timestamp(cue.end, ',')}\n${cue.text}`
+    )
+    .join('\n\n')
+    .concat('\n')
+
+/**
+ * Cues of a WebVTT or SRT file, to edit and serialize again. Cue settings, identifiers, notes and
+ * styles are left out.
+ */
+export const parseCaptions = (text: string): Cue[] =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .flatMap(block => {
+      const blockLines = block.split('\n')
+      const at = blockLines.findIndex(line => line.includes('-->'))
+      if (at === -1) return []
+
+      const [start, end] = blockLines[at].split('-->').map(side => parseTimestamp(side.trim()))
+      const text = blockLines
+        .slice(at + 1)
+        .join('\n')
+        .trim()
+      return Number.isNaN(start) || Number.isNaN(end) ? [] : [{ start, end, text }]
+    })
+
+/** Greedy line wrapping, a word longer than a line gets one of its own */
+const lines = (words: Word[], maxLength: number) =>
+  words.reduce<string[]>((acc, { text }) => {
+    const last = acc[acc.length - 1]
+    return last !== undefined && last.length + 1 + text.length <= maxLength
+      ? [...acc.slice(0, -1), `${last} ${text}`]
+      : [...acc, text]
+  }, [])
+
+const timestamp = (ms: number, separator: '.' | ',') => {
+  const t = Math.max(0, Math.round(ms))
+  const pad = (n: number, length = 2) => String(n).padStart(length, '0')
+  return `${pad(Math.floor(t / 3600000))}:${pad(Math.floor(t / 60000) % 60)}:${pad(
+    Math.floor(t / 1000) % 60
+  )}${separator}${pad(t % 1000, 3)}`
+}
+
+/** `hh:mm:ss.ttt`, hours are optional in WebVTT and SRT uses a comma */
+const parseTimestamp = (text: string) => {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{3})/.exec(text)
+  if (!match) return NaN
+  const [, hours = '0', minutes, seconds, ms] = match
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(ms)
+}
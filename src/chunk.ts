@@ -0,0 +1,107 @@
+/**
+ * Splits `text` in chunks of at most `maxLength` characters, preferring to cut between sentences,
+ * then between clauses, then between words. Joining the chunks gives back the exact `text`.
+ *
+ * Uses `Intl.Segmenter` for sentences and words when available, so languages without spaces or with
+ * their own punctuation are split properly.
+ */
+export const chunkText = (text: string, maxLength: number, lang?: string): string[] =>
+  text.length <= maxLength
+    ? [text]
+    : pack(
+        split(text, maxLength, [
+          sentenceSplitter(lang),
+          t => t.match(/[^,;:、，；：—–]*(?:[,;:、，；：—–]+|$)\s*/g)!,
+          t => segment(t, 'word', lang) ?? t.match(/\S*\s*/g)!,
+        ]),
+        maxLength
+      )
+
+const sentenceSplitter = (lang?: string) => (text: string) =>
+  segment(text, 'sentence', lang) ?? text.match(/[^.!?。！？]*(?:[.!?。！？]+|$)\s*/g)!
+
+const split = (
+  text: string,
+  maxLength: number,
+  splitters: ((text: string) => string[])[]
+): string[] => {
+  if (text.length <= maxLength) return [text]
+
+  const [splitter, ...rest] = splitters
+  if (!splitter) return text.match(new RegExp(`[\\s\\S]{1,${maxLength}}`, 'g'))!
+
+  const pieces = splitter(text).filter(piece => piece !== '')
+  if (pieces.length <= 1) return split(text, maxLength, rest)
+
+  return pieces.flatMap(piece => split(piece, maxLength, rest))
+}
+
+const pack = (pieces: string[], maxLength: number) =>
+  pieces.reduce<string[]>((chunks, piece) => {
+    const last = chunks[chunks.length - 1]
+    if (last !== undefined && last.length + piece.length <= maxLength)
+      chunks[chunks.length - 1] = last + piece
+    else chunks.push(piece)
+    return chunks
+  }, [])
+
+const segment = (text: string, granularity: 'sentence' | 'word', lang?: string) => {
+  // not available on every browser
+  if (typeof Intl.Segmenter !== 'function') return undefined
+
+  const pieces = Array.from(new Intl.Segmenter(lang, { granularity }).segment(text), s => s.segment)
+
+  // word granularity separates the spaces, glue them back to the preceding word
+  return granularity === 'word'
+    ? pieces.reduce<string[]>((acc, piece) => {
+        if (acc.length > 0 && /^\s+$/.test(piece)) acc[acc.length - 1] += piece
+        else acc.push(piece)
+        return acc
+      }, [])
+    : pieces
+}
+
+/**
+ * Regroups text arriving in arbitrary fragments (like a streamed response) into sentences, each
+ * batch of complete sentences is yielded as soon as the sentence after it starts.
+ */
+export const sentencesOf = (
+  fragments: AsyncIterable<string>,
+  lang?: string
+): AsyncIterable<string> => ({
+  [Symbol.asyncIterator]: () => {
+    const iterator = fragments[Symbol.asyncIterator]()
+    let buffer = ''
+    let done = false
+
+    const next = (): Promise<IteratorResult<string, undefined>> =>
+      done
+        ? Promise.resolve({ done, value: undefined })
+        : iterator.next().then(fragment => {
+            if (fragment.done) {
+              done = true
+              return buffer.trim() !== '' ? { value: buffer } : next()
+            }
+
+            buffer += fragment.value
+
+            const sentences = sentenceSplitter(lang)(buffer).filter(sentence => sentence !== '')
+            if (sentences.length <= 1) return next()
+
+            const complete = sentences.slice(0, -1).join('')
+            buffer = buffer.slice(complete.length)
+            return { value: complete }
+          })
+
+    return {
+      next,
+      return: () => {
+        done = true
+        return Promise.resolve(iterator.return?.()).then(() => ({
+          done: true as const,
+          value: undefined,
+        }))
+      },
+    }
+  },
+})
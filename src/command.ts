@@ -0,0 +1,212 @@
+import { EngineUtterance, SynthesisEngine } from './engine'
+import { NotSupportedError } from './errors'
+
+/**
+ * How to drive a local TTS executable. The text to speak is always written to its stdin, so any
+ * command that reads it from there fits.
+ */
+export type TtsCommand = {
+  command: string
+  /** Arguments to speak an utterance, or to write it to `output` as WAV when given */
+  args: (utterance: EngineUtterance, output?: string) => string[]
+  /** Either the fixed voices, or the arguments that print the voice list and how to parse it */
+  voices:
+    | SpeechSynthesisVoice[]
+    | { args: string[]; parse: (stdout: string) => SpeechSynthesisVoice[] }
+  /** For commands that only write raw audio to stdout, the player to pipe it into */
+  player?: string[]
+}
+
+/**
+ * The part of `spawn` from `child_process` the engine uses, typed here so the typings of the
+ * package don't need the ones of Node
+ */
+export type Spawn = (command: string, args: string[]) => CommandProcess
+
+export type CommandProcess = {
+  stdin: CommandInput | null
+  stdout: {
+    on(event: 'data', listener: (data: { toString(): string }) => void): unknown
+    pipe(destination: CommandInput): unknown
+  } | null
+  on(event: 'error', listener: (error: Error) => void): unknown
+  on(event: 'close', listener: (code: number | null) => void): unknown
+  kill(signal?: 'SIGSTOP' | 'SIGCONT'): unknown
+}
+
+type CommandInput = {
+  on(event: 'error', listener: (error: Error) => void): unknown
+  end(text: string): unknown
+}
+
+export type CommandEngineOptions = {
+  /** `spawn` from `child_process`, passed in so browser bundles never import Node modules */
+  spawn: Spawn
+  /** Where to write the n-th utterance as WAV, instead of playing it on the speakers */
+  output?: (index: number) => string
+}
+
+/**
+ * Engine that speaks with a local command, for Node and Electron main processes. Pause and resume
+ * send SIGSTOP and SIGCONT, so they only work on POSIX systems.
+ */
+export const createCommandEngine = (
+  tts: TtsCommand,
+  { spawn, output }: CommandEngineOptions
+): SynthesisEngine => {
+  let voices: Promise<SpeechSynthesisVoice[]> | undefined
+  let processes: CommandProcess[] = []
+  let index = 0
+
+  const signal = (name: 'SIGSTOP' | 'SIGCONT') => processes.forEach(p => p.kill(name))
+
+  const listVoices = () => {
+    if (Array.isArray(tts.voices)) return Promise.resolve(tts.voices)
+    const { args, parse } = tts.voices
+
+    return new Promise<SpeechSynthesisVoice[]>((resolve, reject) => {
+      const child = spawn(tts.command, args)
+      let stdout = ''
+      child.stdout!.on('data', data => (stdout += data.toString()))
+      child.on('error', () => reject(new NotSupportedError(tts.command, undefined)))
+      child.on('close', code =>
+        code === 0
+          ? resolve(parse(stdout))
+          : reject(new Error(`'${tts.command} ${args.join(' ')}' exited with code ${code}`))
+      )
+    })
+  }
+
+  return {
+    getVoices: () => {
+      if (!voices)
+        // a failure isn't kept, the command may be installed by the next call
+        voices = listVoices().catch(error => {
+          voices = undefined
+          throw error
+        })
+      return voices
+    },
+
+    speak: (utterance, callbacks) => {
+      const file = output?.(index++)
+      const child = spawn(tts.command, tts.args(utterance, file))
+      const player = tts.player && !file ? spawn(tts.player[0], tts.player.slice(1)) : undefined
+      const current = (processes = player ? [child, player] : [child])
+
+      let done = false
+      const finish = (error?: SpeechSynthesisErrorCode) => {
+        if (done || processes !== current) return
+        done = true
+        processes = []
+        if (error) callbacks.onerror({ error })
+        else callbacks.onend()
+      }
+
+      current.forEach(p => p.on('error', () => finish('synthesis-unavailable')))
+      if (player) child.stdout!.pipe(player.stdin!)
+
+      const last = player ?? child
+      last.on('close', code => finish(code === 0 ? undefined : 'synthesis-failed'))
+
+      child.stdin!.on('error', () => {})
+      child.stdin!.end(utterance.text)
+    },
+
+    cancel: () => {
+      const cancelled = processes
+      processes = []
+      cancelled.forEach(p => {
+        p.kill('SIGCONT')
+        p.kill()
+      })
+    },
+
+    pause: () => signal('SIGSTOP'),
+
+    resume: () => signal('SIGCONT'),
+  }
+}
+
+/** `espeak-ng`, rate in words per minute, pitch from 0 to 99 and amplitude from 0 to 200 */
+export const espeakNg: TtsCommand = {
+  command: 'espeak-ng',
+  args: ({ voice, rate, pitch, volume }, output) => [
+    ...(voice ? ['-v', voice.voiceURI] : []),
+    ...['-s', String(Math.round(175 * rate))],
+    ...['-p', String(Math.min(99, Math.round(50 * pitch)))],
+    ...['-a', String(Math.round(100 * volume))],
+    ...(output ? ['-w', output] : []),
+    '--stdin',
+  ],
+  voices: {
+    args: ['--voices'],
+    // Pty Language Age/Gender VoiceName File Other Languages
+    parse: stdout =>
+      stdout
+        .split('\n')
+        .slice(1)
+        .map(line => line.trim().split(/\s+/))
+        .filter(columns => columns.length >= 5)
+        .map(([, lang, , name]) => commandVoice(name.replace(/_/g, ' '), toLang(lang), lang)),
+  },
+}
+
+/** The `say` command of macOS, which has no flags for pitch and volume */
+export const say: TtsCommand = {
+  command: 'say',
+  args: ({ voice, rate }, output) => [
+    ...(voice ? ['-v', voice.voiceURI] : []),
+    ...['-r', String(Math.round(175 * rate))],
+    ...(output ? ['-o', output, '--file-format=WAVE', '--data-format=LEI16@22050'] : []),
+  ],
+  voices: {
+    args: ['-v', '?'],
+    // Name may have spaces, like `Eddy (English (US))  en_US    # Hello! My name is Eddy.`
+    parse: stdout =>
+      stdout.split('\n').flatMap(line => {
+        const match = /^(.+?)\s+([a-z]{2,3}[_-]\w+)\s+#/.exec(line)
+        return match ? [commandVoice(match[1], toLang(match[2]), match[1])] : []
+      }),
+  },
+}
+
+/**
+ * Piper with the given `.onnx` models, one voice each, named after the file. Piper only writes raw
+ * audio, so on the speakers it is piped into `player`, `aplay` by default.
+ */
+export const piper = (
+  models: string[],
+  player = ['aplay', '-q', '-r', '22050', '-f', 'S16_LE', '-t', 'raw', '-']
+): TtsCommand => ({
+  command: 'piper',
+  args: ({ voice, rate }, output) => [
+    ...['--model', voice?.voiceURI ?? models[0]],
+    ...['--length_scale', String(1 / rate)],
+    ...(output ? ['--output_file', output] : ['--output-raw']),
+  ],
+  voices: models.map(model => {
+    // like en_US-lessac-medium.onnx
+    const name = model.replace(/^.*[\\/]/, '').replace(/\.onnx$/, '')
+    return commandVoice(name, toLang(name.split('-')[0]), model)
+  }),
+  player,
+})
+
+const commandVoice = (name: string, lang: string, voiceURI: string): SpeechSynthesisVoice => ({
+  name,
+  lang,
+  voiceURI,
+  localService: true,
+  default: false,
+})
+
+/** `en_us` to `en-US` */
+const toLang = (code: string) =>
+  code
+    .replace(/_/g, '-')
+    .split('-')
+    .map((part, i) =>
+      i === 0 ? part.toLowerCase() : part.length === 2 ? part.toUpperCase() : part
+    )
+    .join('-')
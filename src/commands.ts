@@ -0,0 +1,247 @@
+import Symbol_observable from 'symbol-observable'
+
+import { FuzzyOptions, fuzzyMatch } from './fuzzy'
+import { Recognition, recognition as defaultRecognition } from './recognition'
+import { InteropObservable, Observer, Unsubscribable } from './util'
+
+export type Slot<N extends string, T> = {
+  name: N
+  /** Regex source of what the slot can match, without capturing groups */
+  source: string
+  parse: (text: string) => T | undefined
+}
+
+/** A compiled command pattern, from a string or the `pattern` tag */
+export type CommandPattern<T> = {
+  text: string
+  regex: RegExp
+  slots: Slot<string, unknown>[]
+  /** Only here to carry the slot types */
+  __slots?: T
+}
+
+export type CommandMatch<T = Record<string, unknown>> = {
+  pattern: string
+  slots: T
+  transcript: string
+  confidence: number
+}
+
+export type CommandEvent =
+  | ({ tag: 'command' } & CommandMatch)
+  | { tag: 'unmatched'; alternatives: Array<{ transcript: string; confidence: number }> }
+
+type Command = {
+  pattern: CommandPattern<any>
+  handler: (slots: any, match: CommandMatch<any>) => void
+}
+
+const numberWords: Record<string, number> = Object.fromEntries([
+  ...'zero one two three four five six seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen seventeen eighteen nineteen'
+    .split(' ')
+    .map((word, i) => [word, i]),
+  ...'twenty thirty forty fifty sixty seventy eighty ninety'
+    .split(' ')
+    .map((word, i) => [word, (i + 2) * 10]),
+])
+
+const numberWord = `(?:${Object.keys(numberWords).join('|')})`
+
+export const slot = {
+  /** One or more words */
+  text: <N extends string>(name: N): Slot<N, string> => ({
+    name,
+    source: '.+?',
+    parse: text => text,
+  }),
+
+  /** Digits, or english number words up to ninety nine like `twenty five` */
+  number: <N extends string>(name: N): Slot<N, number> => ({
+    name,
+    source: `-?\\d+(?:\\.\\d+)?|${numberWord}(?: ${numberWord})?`,
+    parse: text =>
+      /\d/.test(text)
+        ? Number(text)
+        : text.split(' ').reduce((acc, word) => acc + numberWords[word], 0),
+  }),
+
+  /** The closest of `candidates` by `fuzzyMatch`, if it scores at least `threshold`, 0.6 by default */
+  fuzzy: <N extends string, C extends string>(
+    name: N,
+    candidates: readonly C[],
+    options: FuzzyOptions = {}
+  ): Slot<N, C> => ({
+    name,
+    source: '.+?',
+    parse: text => fuzzyMatch(candidates, text, { threshold: 0.6, ...options })[0]?.candidate,
+  }),
+}
+
+/** The slots of a string pattern, `:name` and `:name(text)` are strings, `:name(number)` numbers */
+type SlotsOfText<P extends string> = string extends P
+  ? Record<string, string | number>
+  : Simplify<SlotsAfter<P>>
+
+type SlotsAfter<P extends string> = P extends `${string}:${infer Rest}`
+  ? Rest extends `${infer Word} ${infer Tail}`
+    ? SlotOf<Word> & SlotsAfter<Tail>
+    : SlotOf<Rest>
+  : {}
+
+type SlotOf<W extends string> = W extends `${infer N}(number)${string}`
+  ? { [K in N]: number }
+  : W extends `${infer N}(text)${string}`
+  ? { [K in N]: string }
+  : { [K in W]: string }
+
+type Simplify<T> = { [K in keyof T]: T[K] }
+
+type SlotsOf<S extends Slot<string, unknown>[]> = {
+  [K in S[number]['name']]: Extract<S[number], { name: K }> extends Slot<K, infer T> ? T : never
+}
+
+/**
+ * A pattern with typed slots, for the handler to know a number slot is a number:
+ *
+ * ```ts
+ * pattern`set volume to ${slot.number('n')}`
+ * ```
+ */
+export const pattern = <S extends Slot<string, unknown>[]>(
+  strings: TemplateStringsArray,
+  ...slots: S
+): CommandPattern<SlotsOf<S>> =>
+  compile(
+    strings.reduce((acc, string, i) => acc + `:${i - 1}` + string),
+    slots
+  )
+
+/**
+ * Routes recognized speech to the first command matching it. Every alternative of a result is
+ * tried, best first, so a command still matches when the recognizer wasn't sure. String patterns
+ * are words, `(go|navigate)` alternatives, and slots like `:page` or `:n(number)`.
+ */
+export class CommandRouter implements InteropObservable<CommandEvent> {
+  constructor(readonly recognition: Recognition, readonly commands: Command[]) {}
+
+  on: {
+    <T>(
+      pattern: CommandPattern<T>,
+      handler: (slots: T, match: CommandMatch<T>) => void
+    ): CommandRouter
+    <P extends string>(
+      pattern: P,
+      handler: (slots: SlotsOfText<P>, match: CommandMatch<SlotsOfText<P>>) => void
+    ): CommandRouter
+  } = (pattern: string | CommandPattern<unknown>, handler: Command['handler']) =>
+    new CommandRouter(this.recognition, [
+      ...this.commands,
+      { pattern: typeof pattern === 'string' ? compile(pattern) : pattern, handler },
+    ])
+
+  /** The first alternative matching a command, without calling its handler */
+  match = (alternatives: Array<{ transcript: string; confidence: number }>) => {
+    for (const { transcript, confidence } of alternatives)
+      for (const { pattern, handler } of this.commands) {
+        const slots = matchPattern(pattern, transcript)
+        if (slots)
+          return { handler, match: { pattern: pattern.text, slots, transcript, confidence } }
+      }
+    return undefined
+  }
+
+  /** Listens to a single utterance and dispatches it */
+  listen = () =>
+    this.recognition.listenDetailed().then(result => this.dispatch(result.alternatives));
+
+  declare [Symbol.observable]: () => this;
+  // @ts-ignore
+  [Symbol_observable] = () => this
+
+  /** Listens and dispatches every final result, unsubscribing stops listening */
+  subscribe = (observer: Partial<Observer<CommandEvent>>): Unsubscribable => {
+    const subscriber = {
+      next: (observer.next ?? (() => {})).bind(observer),
+      error: (observer.error ?? (() => {})).bind(observer),
+      complete: (observer.complete ?? (() => {})).bind(observer),
+    }
+
+    return this.recognition.subscribe({
+      next: e => e.tag === 'final' && subscriber.next(this.dispatch(e.alternatives)),
+      error: subscriber.error,
+      complete: subscriber.complete,
+    })
+  }
+
+  private dispatch = (
+    alternatives: Array<{ transcript: string; confidence: number }>
+  ): CommandEvent => {
+    const found = this.match(alternatives)
+    if (!found) return { tag: 'unmatched', alternatives }
+
+    found.handler(found.match.slots, found.match)
+    return { tag: 'command', ...found.match }
+  }
+}
+
+export const commands = (recognition: Recognition = defaultRecognition) =>
+  new CommandRouter(recognition, [])
+
+/** Lowercase words only, recognizers vary on casing and punctuation, keeping decimal points */
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    // no lookbehind, Safari before 16.4 can't parse it
+    .replace(/\.|[,!?;:"]/g, (mark, i: number, all: string) =>
+      mark === '.' && /\d/.test(all[i - 1] ?? '') && /\d/.test(all[i + 1] ?? '') ? mark : ' '
+    )
+    .trim()
+    .split(/\s+/)
+    .join(' ')
+
+/** `:name` and `:name(type)` become slots, `:0` in `pattern` refers to the given slots */
+const compile = (text: string, given: Slot<string, unknown>[] = []): CommandPattern<any> => {
+  const slots: Slot<string, unknown>[] = []
+
+  const source = text
+    .toLowerCase()
+    .trim()
+    .split(/\s+/)
+    .join(' ')
+    // no spaces within alternatives
+    .replace(/\s*\|\s*/g, '|')
+    .replace(/\(\s+|\s+\)/g, paren => paren.trim())
+    .split(/(:\w+(?:\((?:number|text)\))?|\([^)]*\))/)
+    .map(token => {
+      const slotMatch = /^:(\w+)(?:\((number|text)\))?$/.exec(token)
+      if (slotMatch) {
+        const [, name, type = 'text'] = slotMatch
+        const found = /^\d+$/.test(name) ? given[Number(name)] : slot[type as 'text'](name)
+        slots.push(found)
+        return `(${found.source})`
+      }
+      if (/^\(.*\)$/.test(token))
+        return `(?:${token.slice(1, -1).split('|').map(literal).join('|')})`
+      return literal(token)
+    })
+    .join('')
+
+  return { text, regex: new RegExp(`^${source}$`), slots }
+}
+
+/** Escaped for a regex, without the punctuation `normalize` takes out of transcripts */
+const literal = (text: string) =>
+  text.replace(/[.,!?;"]/g, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const matchPattern = (pattern: CommandPattern<unknown>, transcript: string) => {
+  const found = pattern.regex.exec(normalize(transcript))
+  if (!found) return undefined
+
+  const slots: Record<string, unknown> = {}
+  for (const [i, { name, parse }] of pattern.slots.entries()) {
+    const value = parse(found[i + 1])
+    if (value === undefined || Number.isNaN(value)) return undefined
+    slots[name] = value
+  }
+  return slots
+}
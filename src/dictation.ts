@@ -0,0 +1,616 @@
+import { RecognitionLang } from './recognition'
+
+/** What saying a command does to the text, see `Dictation` */
+export type DictationCommand = 'cap-that' | 'scratch-that' | 'all-caps' | 'end-caps'
+
+/** The spoken commands of a language, matched ignoring case and accents */
+export type DictationVocabulary = {
+  /** Spoken names of punctuation marks and line breaks, like `comma` for `,` */
+  marks: Record<string, string>
+  commands: Record<string, DictationCommand>
+  /** Marks written after a space, like `?` in french */
+  spaceBefore?: string
+}
+
+/** Both scripts, the marks are the full width ones */
+const chinese: DictationVocabulary = {
+  marks: {
+    逗号: '，',
+    逗號: '，',
+    句号: '。',
+    句號: '。',
+    分号: '；',
+    分號: '；',
+    冒号: '：',
+    冒號: '：',
+    问号: '？',
+    問號: '？',
+    感叹号: '！',
+    感嘆號: '！',
+    换行: '\n',
+    換行: '\n',
+    新段落: '\n\n',
+  },
+  commands: {},
+}
+
+/**
+ * Vocabularies by language subtag, add one for a language missing here. Dictation in any other
+ * language still gets the sentence capitalization and spacing, only without spoken commands.
+ *
+ * Scripts without capitals only take `scratch that`, and Chinese and Japanese only marks, being
+ * written without spaces their commands would be heard inside other words.
+ */
+export const dictationVocabularies: Record<string, DictationVocabulary> = {
+  en: {
+    marks: {
+      comma: ',',
+      period: '.',
+      'full stop': '.',
+      'question mark': '?',
+      'exclamation mark': '!',
+      'exclamation point': '!',
+      colon: ':',
+      semicolon: ';',
+      'new line': '\n',
+      'new paragraph': '\n\n',
+    },
+    commands: {
+      'cap that': 'cap-that',
+      'scratch that': 'scratch-that',
+      'all caps': 'all-caps',
+      'end caps': 'end-caps',
+    },
+  },
+  es: {
+    marks: {
+      coma: ',',
+      punto: '.',
+      'punto y coma': ';',
+      'dos puntos': ':',
+      'signo de interrogacion': '?',
+      'signo de exclamacion': '!',
+      'nueva linea': '\n',
+      'nuevo parrafo': '\n\n',
+    },
+    commands: {
+      mayuscula: 'cap-that',
+      'borrar eso': 'scratch-that',
+      'todo mayusculas': 'all-caps',
+      'fin mayusculas': 'end-caps',
+    },
+  },
+  pt: {
+    marks: {
+      virgula: ',',
+      ponto: '.',
+      'ponto final': '.',
+      'ponto e virgula': ';',
+      'dois pontos': ':',
+      'ponto de interrogacao': '?',
+      'ponto de exclamacao': '!',
+      'nova linha': '\n',
+      'novo paragrafo': '\n\n',
+    },
+    commands: {
+      maiuscula: 'cap-that',
+      'apagar isso': 'scratch-that',
+      'tudo maiusculas': 'all-caps',
+      'fim maiusculas': 'end-caps',
+    },
+  },
+  fr: {
+    marks: {
+      virgule: ',',
+      point: '.',
+      'point virgule': ';',
+      'deux points': ':',
+      "point d'interrogation": '?',
+      "point d'exclamation": '!',
+      'a la ligne': '\n',
+      'nouveau paragraphe': '\n\n',
+    },
+    commands: {
+      majuscule: 'cap-that',
+      'efface ca': 'scratch-that',
+      'tout en majuscules': 'all-caps',
+      'fin majuscules': 'end-caps',
+    },
+    spaceBefore: ':;?!',
+  },
+  de: {
+    marks: {
+      komma: ',',
+      punkt: '.',
+      semikolon: ';',
+      doppelpunkt: ':',
+      fragezeichen: '?',
+      ausrufezeichen: '!',
+      'neue zeile': '\n',
+      'neuer absatz': '\n\n',
+    },
+    commands: {
+      'gross schreiben': 'cap-that',
+      'losch das': 'scratch-that',
+      'alles gross': 'all-caps',
+      'ende gross': 'end-caps',
+    },
+  },
+  it: {
+    marks: {
+      virgola: ',',
+      punto: '.',
+      'punto e virgola': ';',
+      'due punti': ':',
+      'punto interrogativo': '?',
+      'punto esclamativo': '!',
+      'a capo': '\n',
+      'nuovo paragrafo': '\n\n',
+    },
+    commands: {
+      maiuscola: 'cap-that',
+      'cancella questo': 'scratch-that',
+      'tutto maiuscolo': 'all-caps',
+      'fine maiuscolo': 'end-caps',
+    },
+  },
+  nl: {
+    marks: {
+      komma: ',',
+      punt: '.',
+      puntkomma: ';',
+      'dubbele punt': ':',
+      vraagteken: '?',
+      uitroepteken: '!',
+      'nieuwe regel': '\n',
+      'nieuwe alinea': '\n\n',
+    },
+    commands: {
+      hoofdletter: 'cap-that',
+      'schrap dat': 'scratch-that',
+      'alles hoofdletters': 'all-caps',
+      'einde hoofdletters': 'end-caps',
+    },
+  },
+  sv: {
+    marks: {
+      komma: ',',
+      punkt: '.',
+      semikolon: ';',
+      kolon: ':',
+      fragetecken: '?',
+      utropstecken: '!',
+      'ny rad': '\n',
+      'nytt stycke': '\n\n',
+    },
+    commands: {
+      'stor bokstav': 'cap-that',
+      'radera det': 'scratch-that',
+      'alla versaler': 'all-caps',
+      'slut versaler': 'end-caps',
+    },
+  },
+  da: {
+    marks: {
+      komma: ',',
+      punktum: '.',
+      semikolon: ';',
+      kolon: ':',
+      sporgsmalstegn: '?',
+      udrabstegn: '!',
+      'ny linje': '\n',
+      'nyt afsnit': '\n\n',
+    },
+    commands: {
+      'stort bogstav': 'cap-that',
+      'slet det': 'scratch-that',
+      'alle versaler': 'all-caps',
+      'slut versaler': 'end-caps',
+    },
+  },
+  nb: {
+    marks: {
+      komma: ',',
+      punktum: '.',
+      semikolon: ';',
+      kolon: ':',
+      sporsmalstegn: '?',
+      utropstegn: '!',
+      'ny linje': '\n',
+      'nytt avsnitt': '\n\n',
+    },
+    commands: {
+      'stor bokstav': 'cap-that',
+      'slett det': 'scratch-that',
+      'alle store': 'all-caps',
+      'slutt store': 'end-caps',
+    },
+  },
+  fi: {
+    marks: {
+      pilkku: ',',
+      piste: '.',
+      puolipiste: ';',
+      kaksoispiste: ':',
+      kysymysmerkki: '?',
+      huutomerkki: '!',
+      'uusi rivi': '\n',
+      'uusi kappale': '\n\n',
+    },
+    commands: {
+      'iso kirjain': 'cap-that',
+      'poista se': 'scratch-that',
+      'kaikki isolla': 'all-caps',
+      'loppu isot': 'end-caps',
+    },
+  },
+  pl: {
+    marks: {
+      przecinek: ',',
+      kropka: '.',
+      srednik: ';',
+      dwukropek: ':',
+      'znak zapytania': '?',
+      wykrzyknik: '!',
+      'nowa linia': '\n',
+      'nowy akapit': '\n\n',
+    },
+    commands: {
+      'wielka litera': 'cap-that',
+      'usun to': 'scratch-that',
+      'wszystko wielkimi': 'all-caps',
+      'koniec wielkich': 'end-caps',
+    },
+  },
+  cs: {
+    marks: {
+      carka: ',',
+      tecka: '.',
+      strednik: ';',
+      dvojtecka: ':',
+      otaznik: '?',
+      vykricnik: '!',
+      'novy radek': '\n',
+      'novy odstavec': '\n\n',
+    },
+    commands: {
+      'velke pismeno': 'cap-that',
+      'smaz to': 'scratch-that',
+      'vse velkymi': 'all-caps',
+      'konec velkych': 'end-caps',
+    },
+  },
+  hu: {
+    marks: {
+      vesszo: ',',
+      pont: '.',
+      pontosvesszo: ';',
+      kettospont: ':',
+      kerdojel: '?',
+      felkialtojel: '!',
+      'uj sor': '\n',
+      'uj bekezdes': '\n\n',
+    },
+    commands: {
+      'nagy kezdobetu': 'cap-that',
+      'torold ezt': 'scratch-that',
+      'csupa nagybetu': 'all-caps',
+      'nagybetu vege': 'end-caps',
+    },
+  },
+  ro: {
+    marks: {
+      virgula: ',',
+      punct: '.',
+      'punct si virgula': ';',
+      'doua puncte': ':',
+      'semnul intrebarii': '?',
+      'semnul exclamarii': '!',
+      'rand nou': '\n',
+      'paragraf nou': '\n\n',
+    },
+    commands: {
+      majuscula: 'cap-that',
+      'sterge asta': 'scratch-that',
+      'totul cu majuscule': 'all-caps',
+      'sfarsit majuscule': 'end-caps',
+    },
+  },
+  tr: {
+    marks: {
+      virgul: ',',
+      nokta: '.',
+      'noktali virgul': ';',
+      'iki nokta': ':',
+      'soru isareti': '?',
+      'unlem isareti': '!',
+      'yeni satir': '\n',
+      'yeni paragraf': '\n\n',
+    },
+    commands: {
+      'buyuk harf': 'cap-that',
+      'bunu sil': 'scratch-that',
+      'tumu buyuk': 'all-caps',
+      'buyuk harf sonu': 'end-caps',
+    },
+  },
+  ru: {
+    marks: {
+      запятая: ',',
+      точка: '.',
+      'точка с запятой': ';',
+      двоеточие: ':',
+      'вопросительный знак': '?',
+      'восклицательный знак': '!',
+      'новая строка': '\n',
+      'новый абзац': '\n\n',
+    },
+    commands: {
+      'с большой буквы': 'cap-that',
+      'удали это': 'scratch-that',
+      'все заглавные': 'all-caps',
+      'конец заглавных': 'end-caps',
+    },
+  },
+  uk: {
+    marks: {
+      кома: ',',
+      крапка: '.',
+      'крапка з комою': ';',
+      двокрапка: ':',
+      'знак питання': '?',
+      'знак оклику': '!',
+      'новий рядок': '\n',
+      'новий абзац': '\n\n',
+    },
+    commands: {
+      'з великої літери': 'cap-that',
+      'видали це': 'scratch-that',
+      'все великими': 'all-caps',
+      'кінець великих': 'end-caps',
+    },
+  },
+  id: {
+    marks: {
+      koma: ',',
+      titik: '.',
+      'titik koma': ';',
+      'titik dua': ':',
+      'tanda tanya': '?',
+      'tanda seru': '!',
+      'baris baru': '\n',
+      'paragraf baru': '\n\n',
+    },
+    commands: {
+      'huruf besar': 'cap-that',
+      'hapus itu': 'scratch-that',
+      'semua huruf besar': 'all-caps',
+      'akhiri huruf besar': 'end-caps',
+    },
+  },
+  vi: {
+    marks: {
+      'dau phay': ',',
+      'dau cham': '.',
+      'dau cham phay': ';',
+      'dau hai cham': ':',
+      'dau cham hoi': '?',
+      'dau cham than': '!',
+      'xuong dong': '\n',
+      'doan moi': '\n\n',
+    },
+    commands: {
+      'viet hoa': 'cap-that',
+      'xoa cau do': 'scratch-that',
+      'viet hoa tat ca': 'all-caps',
+      'het viet hoa': 'end-caps',
+    },
+  },
+  hi: {
+    marks: {
+      अल्पविराम: ',',
+      'पूर्ण विराम': '।',
+      प्रश्नचिह्न: '?',
+      विस्मयादिबोधक: '!',
+      'नई पंक्ति': '\n',
+      'नया अनुच्छेद': '\n\n',
+    },
+    commands: { 'इसे मिटाओ': 'scratch-that' },
+  },
+  ko: {
+    marks: {
+      쉼표: ',',
+      마침표: '.',
+      쌍반점: ';',
+      쌍점: ':',
+      물음표: '?',
+      느낌표: '!',
+      '새 줄': '\n',
+      '새 문단': '\n\n',
+    },
+    commands: { '그거 지워': 'scratch-that' },
+  },
+  ja: {
+    marks: {
+      読点: '、',
+      句点: '。',
+      疑問符: '？',
+      感嘆符: '！',
+      改行: '\n',
+      改段落: '\n\n',
+    },
+    commands: {},
+  },
+  cmn: chinese,
+  yue: chinese,
+}
+
+type Token = { text: string; mark: boolean; caps?: 'upper' | 'title' }
+
+/**
+ * Turns dictated phrases into text, one final result at a time. Spoken marks like `comma` are
+ * written out, sentences start with a capital, and besides `undo`, phrases take these commands, in
+ * the words of the language:
+ *
+ * - `cap that` capitalizes the words before it, or the last phrase if it is said alone
+ * - `scratch that` takes back the words before it, or the last phrase if it is said alone
+ * - `all caps` writes in uppercase until `end caps`
+ *
+ * ```ts
+ * const notes = dictation('en-US')
+ * recognition
+ *   .use({ continuous: true })
+ *   .session()
+ *   .subscribe({ next: e => (editor.value = notes.add(e)) })
+ * ```
+ */
+export class Dictation {
+  private phrases: Token[][] = []
+  private upper = false
+  private spoken: Array<{ words: string[]; mark?: string; command?: DictationCommand }>
+  /** Spoken marks within a transcript without spaces */
+  private inline?: RegExp
+
+  constructor(readonly lang: RecognitionLang, readonly vocabulary: DictationVocabulary) {
+    this.spoken = [
+      ...Object.entries(vocabulary.marks).map(([said, mark]) => ({ words: words(said), mark })),
+      ...Object.entries(vocabulary.commands).map(([said, command]) => ({
+        words: words(said),
+        command,
+      })),
+    ].sort((a, b) => b.words.length - a.words.length)
+
+    if (unspaced.includes(lang.split('-')[0]) && this.spoken.length > 0)
+      this.inline = new RegExp(
+        this.spoken
+          .map(({ words }) => words.join('').replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+          .join('|'),
+        'g'
+      )
+  }
+
+  get text() {
+    return render(this.phrases.flat(), this.lang, this.vocabulary)
+  }
+
+  /** Takes a phrase in, a transcript or a `final` event, others are left out, returning the text */
+  add = (heard: string | { tag: string; alternatives?: Array<{ transcript: string }> }) => {
+    const transcript =
+      typeof heard === 'string'
+        ? heard
+        : heard.tag === 'final'
+        ? heard.alternatives?.[0]?.transcript ?? ''
+        : ''
+    const said = (this.inline ? transcript.replace(this.inline, ' $& ') : transcript)
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean)
+    const normalized = said.map(normalize)
+
+    let phrase: Token[] = []
+    for (let i = 0; i < said.length; ) {
+      const found = this.spoken.find(({ words }) =>
+        words.every((word, j) => normalized[i + j] === word)
+      )
+
+      if (!found) {
+        phrase.push(...tokens(said[i], this.upper))
+        i += 1
+        continue
+      }
+
+      i += found.words.length
+      if (found.mark !== undefined) phrase.push({ text: found.mark, mark: true })
+      else if (found.command === 'all-caps' || found.command === 'end-caps')
+        this.upper = found.command === 'all-caps'
+      else if (phrase.length === 0 && found.command === 'scratch-that') this.phrases.pop()
+      else if (found.command === 'scratch-that') phrase = []
+      else if (phrase.length > 0) phrase = title(phrase)
+      else if (this.phrases.length > 0) this.phrases.push(title(this.phrases.pop()!))
+    }
+
+    if (phrase.length > 0) this.phrases.push(phrase)
+    return this.text
+  }
+
+  /** Takes back the last phrase, returning the text */
+  undo = () => {
+    this.phrases.pop()
+    return this.text
+  }
+}
+
+/** Dictation with the vocabulary of the language, if there is one */
+export const dictation = (
+  lang: RecognitionLang = 'en-US',
+  vocabulary: DictationVocabulary = dictationVocabularies[lang.split('-')[0]] ?? {
+    marks: {},
+    commands: {},
+  }
+) => new Dictation(lang, vocabulary)
+
+/** Languages written without spaces between words */
+const unspaced = ['cmn', 'ja', 'km', 'lo', 'th', 'yue', 'zh']
+
+/** Letters NFD leaves whole, spelled like the plain letters they are typed as */
+const plainLetters: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  ħ: 'h',
+  ı: 'i',
+  þ: 'th',
+}
+
+/** Lowercase without accents */
+const normalize = (word: string) =>
+  word
+    .toLowerCase()
+    .replace(/[ßæœøłđðħıþ]/g, letter => plainLetters[letter])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[.,!?;:]+$/, '')
+
+const words = (text: string) => text.split(/\s+/).map(normalize)
+
+/** A word and the punctuation the recognizer wrote after it */
+const tokens = (word: string, upper: boolean): Token[] => {
+  const [, text, marks] = /^(.*?)([.,!?;:]*)$/.exec(word)!
+  return [
+    ...(text ? [{ text, mark: false, caps: upper ? ('upper' as const) : undefined }] : []),
+    ...(marks ? [{ text: marks, mark: true }] : []),
+  ]
+}
+
+const title = (phrase: Token[]): Token[] =>
+  phrase.map(token => (token.mark || token.caps ? token : { ...token, caps: 'title' }))
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+
+const render = (tokens: Token[], lang: string, vocabulary: DictationVocabulary) => {
+  const separator = unspaced.includes(lang.split('-')[0]) ? '' : ' '
+  let text = ''
+  let sentenceStart = true
+
+  for (const token of tokens) {
+    if (token.mark && token.text.startsWith('\n')) text += token.text
+    else if (token.mark)
+      text += (vocabulary.spaceBefore?.includes(token.text) ? ' ' : '') + token.text
+    else
+      text +=
+        (text === '' || text.endsWith('\n') ? '' : separator) +
+        (token.caps === 'upper'
+          ? token.text.toUpperCase()
+          : token.caps === 'title' || sentenceStart
+          ? capitalize(token.text)
+          : token.text)
+
+    sentenceStart = token.mark ? /[.?!\n]$/.test(token.text) || sentenceStart : false
+  }
+
+  return text
+}
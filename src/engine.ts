@@ -0,0 +1,238 @@
+import { NotSupportedError } from './errors'
+import type { RecognitionEvent, RecognitionOptions } from './recognition'
+
+/** What `Synthesis` asks an engine to speak, options are already clamped to the valid ranges */
+export type EngineUtterance = {
+  text: string
+  voice?: SpeechSynthesisVoice
+  volume: number
+  rate: number
+  pitch: number
+}
+
+/** Only one of `onend` and `onerror` is called, and nothing after `cancel` */
+export type EngineCallbacks = {
+  onboundary: (e: { name: string; charIndex: number; charLength: number }) => void
+  onmark: (e: { name: string; charIndex: number }) => void
+  onend: () => void
+  onerror: (e: { error: SpeechSynthesisErrorCode }) => void
+}
+
+/**
+ * Backend that actually produces the speech. `Synthesis` never has more than one utterance on an
+ * engine at a time, so `cancel`, `pause` and `resume` only have to deal with that one.
+ *
+ * Voices don't need to be `SpeechSynthesisVoice` instances, any object of the same shape works.
+ */
+export interface SynthesisEngine {
+  getVoices(): Promise<SpeechSynthesisVoice[]>
+  speak(utterance: EngineUtterance, callbacks: EngineCallbacks): void
+  cancel(): void
+  pause(): void
+  resume(): void
+  /**
+   * Engines with the same key share one queue, like engines driving the same browser output. Each
+   * engine has its own queue without one.
+   */
+  readonly queueKey?: object
+}
+
+export type WebSpeechTarget = {
+  speechSynthesis: SpeechSynthesis
+  SpeechSynthesisUtterance: typeof SpeechSynthesisUtterance
+}
+
+const keepAliveInterval = 10000
+
+/**
+ * The Web Speech API engine, by default on the current `window`, but can be any window with the
+ * API, like an iframe's `contentWindow`.
+ */
+export const createWebSpeechEngine = (target?: WebSpeechTarget): SynthesisEngine => {
+  // accessed lazily, so creating the engine is safe where there is no window
+  const api = () => target ?? (globalThis as Partial<WebSpeechTarget>)
+
+  let paused = false
+  let stop = () => {}
+
+  return {
+    getVoices: () =>
+      new Promise<Array<SpeechSynthesisVoice>>(resolve => {
+        const { speechSynthesis } = api()
+        if (!speechSynthesis) throw new NotSupportedError('speechSynthesis', undefined)
+        const voices = speechSynthesis.getVoices()
+        if (voices.length > 0) resolve(voices)
+        else
+          speechSynthesis.addEventListener('voiceschanged', function resolver() {
+            speechSynthesis.removeEventListener('voiceschanged', resolver)
+            resolve(speechSynthesis.getVoices())
+          })
+      }),
+
+    speak: ({ text, ...options }, callbacks) => {
+      const { speechSynthesis, SpeechSynthesisUtterance } = api() as WebSpeechTarget
+
+      const utterance = Object.assign(new SpeechSynthesisUtterance(text), options, {
+        onboundary: callbacks.onboundary,
+        onmark: callbacks.onmark,
+        onend: () => {
+          stop()
+          callbacks.onend()
+        },
+        onerror: (e: SpeechSynthesisErrorEvent) => {
+          stop()
+          callbacks.onerror(e)
+        },
+      })
+
+      // Chrome stalls remote voices after a while, and sometimes never leaves a stale paused
+      // state, a pause/resume pulse gets them going again
+      const watchdog = setInterval(() => {
+        if (paused) return
+        if (options.voice && !options.voice.localService) speechSynthesis.pause()
+        speechSynthesis.resume()
+      }, keepAliveInterval)
+
+      stop = () => {
+        clearInterval(watchdog)
+        Object.assign(utterance, { onboundary: null, onmark: null, onend: null, onerror: null })
+      }
+
+      speechSynthesis.speak(utterance)
+    },
+
+    cancel: () => {
+      const { speechSynthesis } = api()
+      stop()
+      speechSynthesis?.cancel()
+      // the browser stays paused after a cancel, which would hang whatever comes next
+      if (paused) speechSynthesis?.resume()
+      paused = false
+    },
+
+    pause: () => {
+      paused = true
+      api().speechSynthesis?.pause()
+    },
+
+    resume: () => {
+      paused = false
+      api().speechSynthesis?.resume()
+    },
+
+    // every engine on a window speaks through its one speechSynthesis queue
+    get queueKey() {
+      return api().speechSynthesis
+    },
+  }
+}
+
+export const webSpeechEngine = createWebSpeechEngine()
+
+/**
+ * Backend that turns speech into `RecognitionEvent`s, one session per `start`. An adapter for an
+ * on-device or server side recognizer only has to keep this contract:
+ *
+ * - `emit` is called with `start` once listening, then any number of `interim` and `final` events,
+ *   and the optional audio/sound/speech ones
+ * - Failures are an `error` event, with one of the `SpeechRecognitionErrorCode` codes
+ * - `end` is always the last event, exactly once, also after `stop`, `abort` and errors
+ * - `stop` emits a `final` for what was already heard before ending, `abort` discards it
+ * - Without `continuous`, the session ends by itself after the first `final`
+ * - `interim` is only emitted with `interimResults`, and at most `maxAlternatives` alternatives
+ * - `index` is optional, without it a result replaces the text since the last `final`
+ */
+export interface RecognitionEngine {
+  start(
+    options: Omit<RecognitionOptions, 'engine'>,
+    emit: (event: RecognitionEvent) => void
+  ): RecognitionControl
+}
+
+export type RecognitionControl = {
+  stop(): void
+  abort(): void
+}
+
+export type WebRecognitionTarget = {
+  SpeechRecognition?: { new (): SpeechRecognition }
+  webkitSpeechRecognition?: { new (): SpeechRecognition }
+  SpeechGrammarList?: { new (): SpeechGrammarList }
+  webkitSpeechGrammarList?: { new (): SpeechGrammarList }
+}
+
+type TaggedEvent = {
+  [K in keyof SpeechRecognitionEventMap]: {
+    tag: K
+  } & SpeechRecognitionEventMap[K]
+}[keyof SpeechRecognitionEventMap]
+
+/**
+ * The Web Speech API engine, prefers the standard `SpeechRecognition` and falls back to the
+ * prefixed `webkitSpeechRecognition`, by default on the current `window`.
+ */
+export const createWebRecognitionEngine = (target?: WebRecognitionTarget): RecognitionEngine => ({
+  start: (options, emit) => {
+    const { lang, continuous, interimResults, maxAlternatives, grammar } = options
+    const api: WebRecognitionTarget = target ?? globalThis
+    const SpeechRecognition = api.SpeechRecognition ?? api.webkitSpeechRecognition
+    const SpeechGrammarList = api.SpeechGrammarList ?? api.webkitSpeechGrammarList
+    if (!SpeechRecognition) throw new NotSupportedError('SpeechRecognition', options)
+
+    const instance = Object.assign(new SpeechRecognition(), {
+      lang,
+      continuous,
+      interimResults,
+      maxAlternatives,
+    })
+    if (grammar && SpeechGrammarList) {
+      instance.grammars = new SpeechGrammarList()
+      instance.grammars.addFromString(grammar.toString(), 1)
+    }
+
+    const recognition = [
+      'audioend',
+      'audiostart',
+      'end',
+      'error',
+      'nomatch',
+      'result',
+      'soundend',
+      'soundstart',
+      'speechend',
+      'speechstart',
+      'start',
+    ].reduce((acc, next) => {
+      acc.addEventListener(next, e =>
+        toRecognitionEvents(Object.assign(e, { tag: next }) as TaggedEvent).forEach(event =>
+          emit(event)
+        )
+      )
+      return acc
+    }, instance)
+
+    recognition.start()
+
+    return {
+      stop: () => recognition.stop(),
+      abort: () => recognition.abort(),
+    }
+  },
+})
+
+export const webRecognitionEngine = createWebRecognitionEngine()
+
+/** A result event changes every result from `resultIndex` on, one event each */
+const toRecognitionEvents = (e: TaggedEvent): RecognitionEvent[] =>
+  e.tag === 'result'
+    ? Array.from(e.results)
+        .slice(e.resultIndex)
+        .map((result, i) => ({
+          tag: result.isFinal ? 'final' : 'interim',
+          alternatives: Array.from(result).map(a => ({
+            transcript: a.transcript,
+            confidence: a.confidence,
+          })),
+          index: e.resultIndex + i,
+        }))
+    : [e as RecognitionEvent]
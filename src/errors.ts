@@ -0,0 +1,119 @@
+export type SpeechErrorCode =
+  | SpeechRecognitionErrorCode
+  | SpeechSynthesisErrorCode
+  | 'not-supported'
+  | 'timeout'
+
+/** Failures worth retrying as they are, anything else needs the user or the options to change */
+const recoverableCodes: SpeechErrorCode[] = [
+  'aborted',
+  'audio-busy',
+  'canceled',
+  'interrupted',
+  'network',
+  'no-speech',
+  'synthesis-failed',
+  'timeout',
+]
+
+/** Base of every error the library rejects or throws with, `options` are the ones in effect */
+export class SpeechError<O = unknown> extends Error {
+  readonly recoverable: boolean
+
+  constructor(readonly code: SpeechErrorCode, message: string, readonly options: O) {
+    super(message)
+    this.name = 'SpeechError'
+    this.recoverable = recoverableCodes.includes(code)
+  }
+}
+
+export class RecognitionError<O = unknown> extends SpeechError<O> {
+  declare readonly code: SpeechRecognitionErrorCode
+
+  constructor(code: SpeechRecognitionErrorCode, message: string, options: O) {
+    super(code, message || `Speech recognition failed with '${code}'`, options)
+    this.name = 'RecognitionError'
+  }
+}
+
+/** The user or the browser didn't allow the microphone or the recognition service */
+export class PermissionDeniedError<O = unknown> extends RecognitionError<O> {
+  declare readonly code: 'not-allowed' | 'service-not-allowed'
+
+  constructor(code: 'not-allowed' | 'service-not-allowed', message: string, options: O) {
+    super(code, message, options)
+    this.name = 'PermissionDeniedError'
+  }
+}
+
+export class SynthesisError<O = unknown> extends SpeechError<O> {
+  declare readonly code: SpeechSynthesisErrorCode
+
+  constructor(
+    code: SpeechSynthesisErrorCode,
+    options: O,
+    /** Where the speech was when it failed */
+    readonly charIndex = 0,
+    message = `Speech synthesis failed with '${code}' at character ${charIndex}`
+  ) {
+    super(code, message, options)
+    this.name = 'SynthesisError'
+  }
+}
+
+/** No voice has the properties given to `use` */
+export class VoiceNotFoundError<O = unknown> extends SynthesisError<O> {
+  constructor(options: O, readonly voiceOptions: Record<string, unknown>) {
+    super(
+      'voice-unavailable',
+      options,
+      0,
+      `No voices found with the following options: '${JSON.stringify(voiceOptions)}'`
+    )
+    this.name = 'VoiceNotFoundError'
+  }
+}
+
+/** The environment lacks the API or command needed, like Firefox for `SpeechRecognition` */
+export class NotSupportedError<O = unknown> extends SpeechError<O> {
+  declare readonly code: 'not-supported'
+
+  constructor(readonly feature: string, options: O) {
+    super('not-supported', `${feature} is not supported`, options)
+    this.name = 'NotSupportedError'
+  }
+}
+
+/** The `signal` given in the options was aborted, with its `reason` */
+export class AbortError<O = unknown> extends SpeechError<O> {
+  declare readonly code: 'aborted'
+
+  constructor(readonly reason: unknown, options: O) {
+    super('aborted', 'Aborted', options)
+    this.name = 'AbortError'
+  }
+}
+
+/** One of the timeouts given in the options ran out, `timeout` tells which */
+export class TimeoutError<O = unknown> extends SpeechError<O> {
+  declare readonly code: 'timeout'
+
+  constructor(
+    readonly timeout: 'timeout' | 'initialSilenceTimeout',
+    readonly ms: number,
+    options: O
+  ) {
+    super('timeout', `Gave up after ${ms}ms due to '${timeout}'`, options)
+    this.name = 'TimeoutError'
+  }
+}
+
+/** The error class for a recognition error code, `PermissionDeniedError` when it is about access */
+export const recognitionError = <O>(
+  code: SpeechRecognitionErrorCode,
+  message: string,
+  options: O
+) =>
+  code === 'not-allowed' || code === 'service-not-allowed'
+    ? new PermissionDeniedError(code, message, options)
+    : new RecognitionError(code, message, options)
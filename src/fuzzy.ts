@@ -0,0 +1,212 @@
+import { doubleMetaphone } from './metaphone'
+
+/** How much each similarity counts toward the score, which is their weighted average */
+export type FuzzyWeights = { edit: number; tokenSet: number; phonetic: number }
+
+export type FuzzyOptions = {
+  /** BCP 47 tag picking the phonetic rules, english by default */
+  lang?: string
+  weights?: Partial<FuzzyWeights>
+  /** Leaves out matches scoring less, from 0 to 1 */
+  threshold?: number
+}
+
+export type FuzzyMatch<C extends string = string> = {
+  candidate: C
+  /** From 0 to 1, the weighted average of `scores` */
+  score: number
+  scores: FuzzyWeights
+  /** The alternative the candidate is closest to */
+  transcript: string
+  confidence: number
+}
+
+/** Phonetic sounds by default, recognizers mostly mistake words for others sounding alike */
+const defaultWeights: FuzzyWeights = { edit: 1, tokenSet: 1, phonetic: 2 }
+
+/** Levenshtein distance, how many characters to insert, delete or replace to get from a to b */
+export const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++)
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/** 1 for the same words, ignoring case, accents and punctuation, down to 0 */
+export const editSimilarity = (a: string, b: string) => ratio(normalize(a), normalize(b))
+
+/** Like `editSimilarity`, but ignoring word order and extra words on either side */
+export const tokenSetSimilarity = (a: string, b: string) => {
+  const [left, right] = [new Set(words(normalize(a))), new Set(words(normalize(b)))]
+  if (left.size === 0 || right.size === 0) return left.size === right.size ? 1 : 0
+
+  const common = [...left].filter(word => right.has(word)).sort()
+  const withRest = (set: Set<string>, other: Set<string>) =>
+    [...common, ...[...set].filter(word => !other.has(word)).sort()].join(' ')
+  const [l, r] = [withRest(left, right), withRest(right, left)]
+
+  return Math.max(ratio(common.join(' '), l), ratio(common.join(' '), r), ratio(l, r))
+}
+
+/**
+ * Spelling to sound rules per language, each sound and the spellings for it, applied in order to
+ * each lowercase word. Sounds are written in uppercase so later rules leave them alone, then
+ * lowercase vowels and `h` are dropped but for a leading one, and a `c` or `q` left is a `K`. Add a
+ * language by adding its rules, english uses `doubleMetaphone`.
+ */
+export const phoneticRules: Record<string, Record<string, RegExp>> = {
+  es: {
+    X: /ch/g,
+    Y: /ll|y(?=[aeiou])/g,
+    K: /qu/g,
+    S: /c(?=[eiy])|z/g,
+    G: /gu(?=[ei])/g,
+    J: /g(?=[eiy])|j/g,
+    B: /v/g,
+    NY: /ñ/g,
+    KS: /x/g,
+  },
+  pt: {
+    S: /ç|c(?=[eiy])|ss/g,
+    X: /ch|x/g,
+    LY: /lh/g,
+    NY: /nh/g,
+    K: /qu(?=[ei])/g,
+    G: /gu(?=[ei])/g,
+    J: /g(?=[eiy])|j/g,
+    $1Z: /([aeiou])s(?=[aeiou])/g,
+  },
+  fr: {
+    '': /(?:e?s|e|t|d|x|z)$/,
+    S: /ç|c(?=[eiy])/g,
+    o: /e?au/g,
+    X: /ch/g,
+    F: /ph/g,
+    K: /qu/g,
+    NY: /gn/g,
+    J: /g(?=[eiy])|j/g,
+    $1Z: /([aeiou])s(?=[aeiou])/g,
+  },
+  de: {
+    S: /ß/g,
+    X: /^s(?=[pt])|sch/g,
+    H: /ch/g,
+    F: /ph|v/g,
+    V: /w/g,
+    TS: /t?z/g,
+    K: /ck|q/g,
+    T: /dt/g,
+  },
+  it: {
+    K: /ch/g,
+    G: /gh/g,
+    LY: /gli/g,
+    NY: /gn/g,
+    X: /s?c(?=[ei])/g,
+    J: /g(?=[ei])/g,
+    TS: /z/g,
+  },
+}
+
+/** How the text sounds, so words that sound alike get the same key, like `KPRNTS` for kubernetes */
+export const phoneticKey = (text: string, lang = 'en') => phoneticKeys(text, lang)[0]
+
+/** `editSimilarity` of the phonetic keys, taking the closest of both english keys */
+export const phoneticSimilarity = (a: string, b: string, lang = 'en') => {
+  const keys = phoneticKeys(b, lang)
+  return Math.max(...phoneticKeys(a, lang).flatMap(key => keys.map(other => ratio(key, other))))
+}
+
+/** The similarities of a and b, and their weighted average as the score */
+export const similarity = (a: string, b: string, options: FuzzyOptions = {}) => {
+  const weights = { ...defaultWeights, ...options.weights }
+  const scores: FuzzyWeights = {
+    edit: editSimilarity(a, b),
+    tokenSet: tokenSetSimilarity(a, b),
+    phonetic: phoneticSimilarity(a, b, options.lang),
+  }
+  const total = weights.edit + weights.tokenSet + weights.phonetic
+
+  return {
+    scores,
+    score:
+      (scores.edit * weights.edit +
+        scores.tokenSet * weights.tokenSet +
+        scores.phonetic * weights.phonetic) /
+      total,
+  }
+}
+
+/**
+ * Ranks the candidates by how close they are to what was heard, the transcript or the
+ * `alternatives` of a `final` event, each candidate scored by its closest alternative:
+ *
+ * ```ts
+ * fuzzyMatch(['kubernetes', 'calendar'], 'cooper netties')[0].candidate // 'kubernetes'
+ * ```
+ */
+export const fuzzyMatch = <C extends string>(
+  candidates: readonly C[],
+  heard: string | Array<{ transcript: string; confidence: number }>,
+  options: FuzzyOptions = {}
+): FuzzyMatch<C>[] => {
+  const alternatives = typeof heard === 'string' ? [{ transcript: heard, confidence: 1 }] : heard
+  if (alternatives.length === 0) return []
+
+  return candidates
+    .map(candidate =>
+      alternatives
+        .map(({ transcript, confidence }) => ({
+          candidate,
+          ...similarity(candidate, transcript, options),
+          transcript,
+          confidence,
+        }))
+        .reduce((best, match) => (match.score > best.score ? match : best))
+    )
+    .filter(match => match.score >= (options.threshold ?? 0))
+    .sort((a, b) => b.score - a.score)
+}
+
+const words = (text: string) => text.split(/[\s.,!?;:"()[\]{}]+/).filter(Boolean)
+
+const stripMarks = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+
+const normalize = (text: string) => words(stripMarks(text.toLowerCase())).join(' ')
+
+const ratio = (a: string, b: string) =>
+  a.length + b.length === 0 ? 1 : 1 - editDistance(a, b) / Math.max(a.length, b.length)
+
+/** Words are keyed separately and joined, so `cooper netties` and `kubernetes` key the same */
+const phoneticKeys = (text: string, lang: string) => {
+  const language = lang.toLowerCase().split('-')[0]
+  const tokens = words(text.toLowerCase())
+
+  if (language === 'en') {
+    const keys = tokens.map(word => doubleMetaphone(stripMarks(word)))
+    return [keys.map(key => key.primary).join(''), keys.map(key => key.secondary).join('')]
+  }
+
+  const rules = Object.entries(phoneticRules[language] ?? {})
+  return [
+    tokens
+      .map(word =>
+        stripMarks(rules.reduce((acc, [sound, spelling]) => acc.replace(spelling, sound), word))
+          .replace(/^[aeiouy]/, 'A')
+          .replace(/[aeiouyh]/g, '')
+          .toUpperCase()
+          .replace(/[^A-Z0-9]/g, '')
+          .replace(/C|Q/g, 'K')
+          .replace(/(.)\1+/g, '$1')
+      )
+      .join(''),
+  ]
+}
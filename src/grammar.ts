@@ -0,0 +1,176 @@
+/** Words to say, a reference to another rule, or a combination of expansions */
+export type Expansion =
+  | string
+  | { tag: 'ref'; name: string }
+  | { tag: 'sequence'; items: Expansion[] }
+  | { tag: 'alternatives'; items: Weighted[] }
+  | { tag: 'optional'; expansion: Expansion }
+  | { tag: 'repeat'; expansion: Expansion; min: 0 | 1 }
+
+export type Weighted = { expansion: Expansion; weight?: number }
+
+export type GrammarRule = { name: string; expansion: Expansion; public: boolean }
+
+export const seq = (...items: Expansion[]): Expansion => ({ tag: 'sequence', items })
+
+/** Any one of `items`, give them a weight with `weighted` to say which are more likely */
+export const oneOf = (...items: Array<Expansion | Weighted>): Expansion => ({
+  tag: 'alternatives',
+  items: items.map(item =>
+    typeof item === 'object' && 'expansion' in item ? item : { expansion: item }
+  ),
+})
+
+export const weighted = (expansion: Expansion, weight: number): Weighted => ({ expansion, weight })
+
+export const optional = (expansion: Expansion): Expansion => ({ tag: 'optional', expansion })
+
+/** Zero or more times, or one or more with `min` 1 */
+export const repeat = (expansion: Expansion, min: 0 | 1 = 0): Expansion => ({
+  tag: 'repeat',
+  expansion,
+  min,
+})
+
+/**
+ * A JSGF grammar, built a rule at a time. Rules can only reference the ones already declared, or
+ * themselves, through the `ref` given to build them:
+ *
+ * ```ts
+ * grammar('warehouse')
+ *   .rule('letter', oneOf('alpha', 'bravo', weighted('charlie', 2)), { public: false })
+ *   .rule('digit', oneOf('one', 'two', 'three'), { public: false })
+ *   .rule('bin', ref => seq(optional('bin'), ref('letter'), repeat(ref('digit'), 1)))
+ * ```
+ */
+export class Grammar<R extends string = never> {
+  constructor(readonly name: string, readonly rules: GrammarRule[]) {}
+
+  /** Rules are public, what can be said on its own, unless `public` is false */
+  rule = <N extends string>(
+    name: N,
+    expansion: Expansion | ((ref: (rule: R | N) => Expansion) => Expansion),
+    options: { public?: boolean } = {}
+  ) =>
+    new Grammar<R | N>(this.name, [
+      ...this.rules.filter(rule => rule.name !== name),
+      {
+        name,
+        expansion: typeof expansion === 'function' ? expansion(ref) : expansion,
+        public: options.public ?? true,
+      },
+    ])
+
+  toString = () =>
+    [
+      '#JSGF V1.0;',
+      `grammar ${this.name};`,
+      ...this.rules.map(
+        rule => `${rule.public ? 'public ' : ''}<${rule.name}> = ${jsgf(rule.expansion)};`
+      ),
+    ].join('\n')
+
+  /** Whether a public rule matches the whole transcript, ignoring case and punctuation */
+  matches = (transcript: string) => {
+    const tokens = tokenize(transcript)
+    const rules = new Map(this.rules.map(rule => [rule.name, rule]))
+
+    return this.rules.some(
+      rule => rule.public && ends(rule.expansion, tokens, 0, rules, 0).includes(tokens.length)
+    )
+  }
+
+  /** The alternatives matching the grammar first, otherwise in the same order */
+  rerank = <A extends { transcript: string }>(alternatives: A[]) => {
+    const matching = alternatives.filter(a => this.matches(a.transcript))
+    return [...matching, ...alternatives.filter(a => !matching.includes(a))]
+  }
+}
+
+export const grammar = (name: string) => new Grammar(name, [])
+
+const ref = (name: string): Expansion => ({ tag: 'ref', name })
+
+const jsgf = (expansion: Expansion): string => {
+  if (typeof expansion === 'string')
+    return /[;=|*+<>()[\]{}/"\\]/.test(expansion)
+      ? JSON.stringify(expansion)
+      : expansion.trim().replace(/\s+/g, ' ')
+
+  switch (expansion.tag) {
+    case 'ref':
+      return `<${expansion.name}>`
+    case 'sequence':
+      return expansion.items.map(group).join(' ')
+    case 'alternatives':
+      return `(${expansion.items
+        .map(
+          ({ expansion, weight }) => (weight === undefined ? '' : `/${weight}/ `) + jsgf(expansion)
+        )
+        .join(' | ')})`
+    case 'optional':
+      return `[${jsgf(expansion.expansion)}]`
+    case 'repeat':
+      return `${group(expansion.expansion)}${expansion.min === 0 ? '*' : '+'}`
+  }
+}
+
+/** Parenthesized when it wouldn't be a single unit otherwise */
+const group = (expansion: Expansion) =>
+  typeof expansion === 'string'
+    ? /\s/.test(expansion.trim())
+      ? `(${jsgf(expansion)})`
+      : jsgf(expansion)
+    : expansion.tag === 'sequence'
+    ? `(${jsgf(expansion)})`
+    : jsgf(expansion)
+
+const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[\s.,!?;:"()[\]{}]+/)
+    .filter(Boolean)
+
+/** Every token position where `expansion` can end, when it starts at `start` */
+const ends = (
+  expansion: Expansion,
+  tokens: string[],
+  start: number,
+  rules: Map<string, GrammarRule>,
+  depth: number
+): number[] => {
+  // recursive rules that never consume a token would loop forever
+  if (depth > 100) return []
+
+  if (typeof expansion === 'string') {
+    const words = tokenize(expansion)
+    return words.every((word, i) => tokens[start + i] === word) ? [start + words.length] : []
+  }
+
+  const next = (e: Expansion, from: number[]) =>
+    unique(from.flatMap(position => ends(e, tokens, position, rules, depth + 1)))
+
+  switch (expansion.tag) {
+    case 'ref': {
+      const rule = rules.get(expansion.name)
+      return rule ? next(rule.expansion, [start]) : []
+    }
+    case 'sequence':
+      return expansion.items.reduce((positions, item) => next(item, positions), [start])
+    case 'alternatives':
+      return unique(expansion.items.flatMap(item => next(item.expansion, [start])))
+    case 'optional':
+      return unique([start, ...next(expansion.expansion, [start])])
+    case 'repeat': {
+      const reached = new Set(expansion.min === 0 ? [start] : [])
+      let frontier = next(expansion.expansion, [start])
+      while (frontier.length > 0) {
+        frontier.forEach(position => reached.add(position))
+        frontier = next(expansion.expansion, frontier).filter(position => !reached.has(position))
+      }
+      return [...reached]
+    }
+  }
+}
+
+const unique = (positions: number[]) => [...new Set(positions)]
@@ -1,10 +1,104 @@
 export type {
+  EventTiming,
+  ListenResult,
   Recognition,
   RecognitionEvent,
   RecognitionLang,
   RecognitionOptions,
+  SpeechTiming,
+  TimedRecognitionEvent,
 } from './recognition'
 export { recognition } from './recognition'
 
-export type { BrowserVoice, Synthesis, SynthesisOptions, SynthesisVoice } from './synthesis'
+export type { AbortOptions } from './abort'
+
+export type { CaptionBuilder, CaptionEvent, CaptionOptions, Cue } from './captions'
+export { captions, parseCaptions, toSrt, toVtt } from './captions'
+
+export type { Capabilities, CapabilitiesTarget } from './capabilities'
+export { capabilities } from './capabilities'
+
+export type { CommandEvent, CommandMatch, CommandPattern, CommandRouter, Slot } from './commands'
+export { commands, pattern, slot } from './commands'
+
+export type { CommandEngineOptions, CommandProcess, Spawn, TtsCommand } from './command'
+export { createCommandEngine, espeakNg, piper, say } from './command'
+
+export type { Dictation, DictationCommand, DictationVocabulary } from './dictation'
+export { dictation, dictationVocabularies } from './dictation'
+
+export type {
+  EngineCallbacks,
+  EngineUtterance,
+  RecognitionControl,
+  RecognitionEngine,
+  SynthesisEngine,
+  WebRecognitionTarget,
+  WebSpeechTarget,
+} from './engine'
+export {
+  createWebRecognitionEngine,
+  createWebSpeechEngine,
+  webRecognitionEngine,
+  webSpeechEngine,
+} from './engine'
+
+export type { SpeechErrorCode } from './errors'
+export {
+  AbortError,
+  NotSupportedError,
+  PermissionDeniedError,
+  RecognitionError,
+  SpeechError,
+  SynthesisError,
+  TimeoutError,
+  VoiceNotFoundError,
+} from './errors'
+
+export type { FuzzyMatch, FuzzyOptions, FuzzyWeights } from './fuzzy'
+export {
+  editDistance,
+  editSimilarity,
+  fuzzyMatch,
+  phoneticKey,
+  phoneticRules,
+  phoneticSimilarity,
+  similarity,
+  tokenSetSimilarity,
+} from './fuzzy'
+
+export type { Expansion, GrammarRule, Grammar, Weighted } from './grammar'
+export { grammar, oneOf, optional, repeat, seq, weighted } from './grammar'
+
+export { doubleMetaphone } from './metaphone'
+
+export type { QueueEntry, QueueOptions, QueuePolicy } from './queue'
+export { SpeechQueue } from './queue'
+
+export type { VoiceCandidate, VoiceMatch, VoiceWeights } from './ranking'
+export { rankVoices } from './ranking'
+
+export type { RecognitionSession, SessionEvent, SessionOptions } from './session'
+
+export type { SsmlSegment } from './ssml'
+export { parseSsml } from './ssml'
+
+export type {
+  SpeechBoundary,
+  SpeechHandle,
+  SpeechResult,
+  Synthesis,
+  SynthesisEvent,
+  SynthesisOptions,
+  SynthesisVoice,
+} from './synthesis'
 export { getVoicesTypeString, speak, synthesis } from './synthesis'
+
+export type { Transcript, TranscriptEdit, TranscriptSegment } from './transcript'
+export { transcript } from './transcript'
+
+export type { BrowserVoice, ChromeVoice, FirefoxVoice, MacOSVoice, SafariVoice } from './voices'
+export { voiceCatalog } from './voices'
+
+export type { WakeEvent, WakeWord, WakeWordOptions } from './wake'
+export { wakeWord } from './wake'
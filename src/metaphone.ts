@@ -0,0 +1,400 @@
+/**
+ * Lawrence Philips' Double Metaphone, the primary and secondary phonetic keys of a word, mostly for
+ * english but aware of common germanic, slavic, romance and greek spellings. Keys are not
+ * truncated, so whole phrases can be compared.
+ */
+export const doubleMetaphone = (word: string) => {
+  const value = word.toUpperCase().replace(/[^A-ZÇÑ ]/g, '')
+  const length = value.length
+  const last = length - 1
+  const slavoGermanic = /W|K|CZ|WITZ/.test(value)
+  const germanic = /^(VAN |VON |SCH)/.test(value)
+
+  let primary = ''
+  let secondary = ''
+  const add = (main: string, alternate = main) => {
+    primary += main
+    secondary += alternate
+  }
+
+  // padded like the original, rules look for a space after the word
+  const padded = value + '     '
+  const charAt = (i: number) => padded.charAt(i)
+  const isVowel = (i: number) => /^[AEIOUY]$/.test(charAt(i))
+  /** Whether one of `strings` is at `start`, like the original `StringAt` */
+  const at = (start: number, ...strings: string[]) =>
+    start >= 0 && strings.some(s => padded.slice(start, start + s.length) === s)
+
+  let i = at(0, 'GN', 'KN', 'PN', 'WR', 'PS') ? 1 : 0
+  if (charAt(0) === 'X') {
+    // Xavier
+    add('S')
+    i = 1
+  }
+
+  while (i < length) {
+    const next = charAt(i + 1)
+
+    switch (charAt(i)) {
+      case 'A':
+      case 'E':
+      case 'I':
+      case 'O':
+      case 'U':
+      case 'Y':
+        if (i === 0) add('A')
+        i += 1
+        break
+
+      case 'B':
+        add('P')
+        i += next === 'B' ? 2 : 1
+        break
+
+      case 'Ç':
+        add('S')
+        i += 1
+        break
+
+      case 'C':
+        // germanic ACH, as in bacher and macher
+        if (
+          i > 1 &&
+          !isVowel(i - 2) &&
+          at(i - 1, 'ACH') &&
+          charAt(i + 2) !== 'I' &&
+          (charAt(i + 2) !== 'E' || at(i - 2, 'BACHER', 'MACHER'))
+        ) {
+          add('K')
+          i += 2
+        } else if (i === 0 && at(i, 'CAESAR')) {
+          add('S')
+          i += 2
+        } else if (at(i, 'CHIA')) {
+          // chianti
+          add('K')
+          i += 2
+        } else if (at(i, 'CH')) {
+          if (i > 0 && at(i, 'CHAE')) add('K', 'X')
+          // greek roots like chemistry and chorus
+          else if (
+            i === 0 &&
+            (at(i + 1, 'HARAC', 'HARIS') || at(i + 1, 'HOR', 'HYM', 'HIA', 'HEM')) &&
+            !at(0, 'CHORE')
+          )
+            add('K')
+          else if (
+            germanic ||
+            at(i - 2, 'ORCHES', 'ARCHIT', 'ORCHID') ||
+            at(i + 2, 'T', 'S') ||
+            ((i === 0 || at(i - 1, 'A', 'O', 'U', 'E')) &&
+              (at(i + 2, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W', ' ') || i + 1 === last))
+          )
+            add('K')
+          else if (i > 0) add(at(0, 'MC') ? 'K' : 'X', 'K')
+          else add('X')
+          i += 2
+        } else if (at(i, 'CZ') && !at(i - 2, 'WICZ')) {
+          // czerny
+          add('S', 'X')
+          i += 2
+        } else if (at(i + 1, 'CIA')) {
+          // focaccia
+          add('X')
+          i += 3
+        } else if (at(i, 'CC') && !(i === 1 && charAt(0) === 'M')) {
+          // bellocchio but not bacchus
+          if (at(i + 2, 'I', 'E', 'H') && !at(i + 2, 'HU')) {
+            // accident, accede, succeed
+            if ((i === 1 && charAt(i - 1) === 'A') || at(i - 1, 'UCCEE', 'UCCES')) add('KS')
+            else add('X')
+            i += 3
+          } else {
+            add('K')
+            i += 2
+          }
+        } else if (at(i, 'CK', 'CG', 'CQ')) {
+          add('K')
+          i += 2
+        } else if (at(i, 'CI', 'CE', 'CY')) {
+          if (at(i, 'CIO', 'CIE', 'CIA')) add('S', 'X')
+          else add('S')
+          i += 2
+        } else {
+          add('K')
+          // mac caffrey, mac gregor
+          if (at(i + 1, ' C', ' Q', ' G')) i += 3
+          else if (at(i + 1, 'C', 'K', 'Q') && !at(i + 1, 'CE', 'CI')) i += 2
+          else i += 1
+        }
+        break
+
+      case 'D':
+        if (at(i, 'DG')) {
+          if (at(i + 2, 'I', 'E', 'Y')) {
+            // edge
+            add('J')
+            i += 3
+          } else {
+            // edgar
+            add('TK')
+            i += 2
+          }
+        } else {
+          add('T')
+          i += at(i, 'DT', 'DD') ? 2 : 1
+        }
+        break
+
+      case 'F':
+        add('F')
+        i += next === 'F' ? 2 : 1
+        break
+
+      case 'G':
+        if (next === 'H') {
+          if (i > 0 && !isVowel(i - 1)) add('K')
+          // ghislane, ghiradelli
+          else if (i === 0) add(charAt(i + 2) === 'I' ? 'J' : 'K')
+          // Parker's rule, as in hugh, bough and broughton
+          else if (
+            (i > 1 && at(i - 2, 'B', 'H', 'D')) ||
+            (i > 2 && at(i - 3, 'B', 'H', 'D')) ||
+            (i > 3 && at(i - 4, 'B', 'H'))
+          ) {
+            // silent
+          }
+          // laugh, cough, rough, tough
+          else if (i > 2 && charAt(i - 1) === 'U' && at(i - 3, 'C', 'G', 'L', 'R', 'T')) add('F')
+          else if (charAt(i - 1) !== 'I') add('K')
+          i += 2
+        } else if (next === 'N') {
+          if (i === 1 && isVowel(0) && !slavoGermanic) add('KN', 'N')
+          // not cagney
+          else if (!at(i + 2, 'EY') && !slavoGermanic) add('N', 'KN')
+          else add('KN')
+          i += 2
+        } else if (at(i + 1, 'LI') && !slavoGermanic) {
+          // tagliaro
+          add('KL', 'L')
+          i += 2
+        } else if (
+          i === 0 &&
+          (next === 'Y' ||
+            at(i + 1, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))
+        ) {
+          add('K', 'J')
+          i += 2
+        } else if (
+          (at(i + 1, 'ER') || next === 'Y') &&
+          !at(0, 'DANGER', 'RANGER', 'MANGER') &&
+          !at(i - 1, 'E', 'I') &&
+          !at(i - 1, 'RGY', 'OGY')
+        ) {
+          add('K', 'J')
+          i += 2
+        } else if (at(i + 1, 'E', 'I', 'Y') || at(i - 1, 'AGGI', 'OGGI')) {
+          // italian, like biaggi
+          if (germanic || at(i + 1, 'ET')) add('K')
+          else if (at(i + 1, 'IER ')) add('J')
+          else add('J', 'K')
+          i += 2
+        } else {
+          add('K')
+          i += next === 'G' ? 2 : 1
+        }
+        break
+
+      case 'H':
+        // only kept first or between vowels
+        if ((i === 0 || isVowel(i - 1)) && isVowel(i + 1)) {
+          add('H')
+          i += 2
+        } else i += 1
+        break
+
+      case 'J':
+        // spanish, like jose and san jacinto
+        if (at(i, 'JOSE') || at(0, 'SAN ')) {
+          if ((i === 0 && charAt(i + 4) === ' ') || at(0, 'SAN ')) add('H')
+          else add('J', 'H')
+          i += 1
+          break
+        }
+        if (i === 0) add('J', 'A')
+        // spanish, like bajador
+        else if (isVowel(i - 1) && !slavoGermanic && (next === 'A' || next === 'O')) add('J', 'H')
+        else if (i === last) add('J', '')
+        else if (!at(i + 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') && !at(i - 1, 'S', 'K', 'L'))
+          add('J')
+        i += next === 'J' ? 2 : 1
+        break
+
+      case 'K':
+        add('K')
+        i += next === 'K' ? 2 : 1
+        break
+
+      case 'L':
+        if (next === 'L') {
+          // spanish, like cabrillo and gallegos
+          if (
+            (i === length - 3 && at(i - 1, 'ILLO', 'ILLA', 'ALLE')) ||
+            ((at(last - 1, 'AS', 'OS') || at(last, 'A', 'O')) && at(i - 1, 'ALLE'))
+          )
+            add('L', '')
+          else add('L')
+          i += 2
+        } else {
+          add('L')
+          i += 1
+        }
+        break
+
+      case 'M':
+        add('M')
+        // dumb, thumb
+        i += (at(i - 1, 'UMB') && (i + 1 === last || at(i + 2, 'ER'))) || next === 'M' ? 2 : 1
+        break
+
+      case 'N':
+        add('N')
+        i += next === 'N' ? 2 : 1
+        break
+
+      case 'Ñ':
+        add('N')
+        i += 1
+        break
+
+      case 'P':
+        if (next === 'H') {
+          add('F')
+          i += 2
+        } else {
+          add('P')
+          i += at(i + 1, 'P', 'B') ? 2 : 1
+        }
+        break
+
+      case 'Q':
+        add('K')
+        i += next === 'Q' ? 2 : 1
+        break
+
+      case 'R':
+        // french, like rogier, but not hochmeier
+        if (i === last && !slavoGermanic && at(i - 2, 'IE') && !at(i - 4, 'ME', 'MA')) add('', 'R')
+        else add('R')
+        i += next === 'R' ? 2 : 1
+        break
+
+      case 'S':
+        if (at(i - 1, 'ISL', 'YSL')) {
+          // island, isle, carlisle
+          i += 1
+        } else if (i === 0 && at(i, 'SUGAR')) {
+          add('X', 'S')
+          i += 1
+        } else if (at(i, 'SH')) {
+          // germanic
+          if (at(i + 1, 'HEIM', 'HOEK', 'HOLM', 'HOLZ')) add('S')
+          else add('X')
+          i += 2
+        } else if (at(i, 'SIO', 'SIA')) {
+          add('S', slavoGermanic ? 'S' : 'X')
+          i += 3
+        } else if ((i === 0 && at(i + 1, 'M', 'N', 'L', 'W')) || next === 'Z') {
+          // smith matches schmidt, snider matches schneider
+          add('S', 'X')
+          i += next === 'Z' ? 2 : 1
+        } else if (at(i, 'SC')) {
+          if (charAt(i + 2) === 'H') {
+            // dutch, like school and schooner
+            if (at(i + 3, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM'))
+              add(at(i + 3, 'ER', 'EN') ? 'X' : 'SK', 'SK')
+            else if (i === 0 && !isVowel(3) && charAt(3) !== 'W') add('X', 'S')
+            else add('X')
+          } else if (at(i + 2, 'I', 'E', 'Y')) add('S')
+          else add('SK')
+          i += 3
+        } else {
+          // french, like resnais and artois
+          if (i === last && at(i - 2, 'AI', 'OI')) add('', 'S')
+          else add('S')
+          i += at(i + 1, 'S', 'Z') ? 2 : 1
+        }
+        break
+
+      case 'T':
+        if (at(i, 'TION')) {
+          add('X')
+          i += 3
+        } else if (at(i, 'TIA', 'TCH')) {
+          add('X')
+          i += 3
+        } else if (at(i, 'TH', 'TTH')) {
+          // thomas, thames, or germanic
+          if (at(i + 2, 'OM', 'AM') || germanic) add('T')
+          else add('0', 'T')
+          i += 2
+        } else {
+          add('T')
+          i += at(i + 1, 'T', 'D') ? 2 : 1
+        }
+        break
+
+      case 'V':
+        add('F')
+        i += next === 'V' ? 2 : 1
+        break
+
+      case 'W':
+        if (at(i, 'WR')) {
+          add('R')
+          i += 2
+          break
+        }
+        // wasserman matches vasserman, uomo matches womo
+        if (i === 0 && (isVowel(i + 1) || at(i, 'WH'))) add('A', isVowel(i + 1) ? 'F' : 'A')
+        // arnow matches arnoff
+        if (
+          (i === last && isVowel(i - 1)) ||
+          at(i - 1, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') ||
+          at(0, 'SCH')
+        ) {
+          add('', 'F')
+          i += 1
+        } else if (at(i, 'WICZ', 'WITZ')) {
+          // polish, like filipowicz
+          add('TS', 'FX')
+          i += 4
+        } else i += 1
+        break
+
+      case 'X':
+        // french, like breaux
+        if (!(i === last && (at(i - 3, 'IAU', 'EAU') || at(i - 2, 'AU', 'OU')))) add('KS')
+        i += at(i + 1, 'C', 'X') ? 2 : 1
+        break
+
+      case 'Z':
+        if (next === 'H') {
+          // chinese pinyin, like zhao
+          add('J')
+          i += 2
+          break
+        }
+        if (at(i + 1, 'ZO', 'ZI', 'ZA') || (slavoGermanic && i > 0 && charAt(i - 1) !== 'T'))
+          add('S', 'TS')
+        else add('S')
+        i += next === 'Z' ? 2 : 1
+        break
+
+      default:
+        i += 1
+    }
+  }
+
+  return { primary, secondary }
+}
@@ -0,0 +1,189 @@
+import Symbol_observable from 'symbol-observable'
+
+import {
+  AnyVoice,
+  SpeechHandle,
+  SpeechResult,
+  Synthesis,
+  SynthesisOptions,
+  VoiceFilter,
+} from './synthesis'
+import { InteropObservable, Observer, Unsubscribable } from './util'
+import { BrowserVoice } from './voices'
+
+/**
+ * - `enqueue`: waits for its turn, ordered by priority
+ * - `interrupt`: cancels whatever is being spoken and goes next
+ * - `replace-same-channel`: cancels everything queued or being spoken on the same channel first
+ * - `drop-if-busy`: not spoken at all if anything is queued or being spoken
+ */
+export type QueuePolicy = 'enqueue' | 'interrupt' | 'replace-same-channel' | 'drop-if-busy'
+
+export type QueueOptions = {
+  /**
+   * Higher goes first, same priority keeps insertion order
+   *
+   * @default 0
+   */
+  priority: number
+
+  /**
+   * Named group of entries, so `replace-same-channel` and `clear` can target only them
+   *
+   * @default 'default'
+   */
+  channel: string
+
+  /**
+   * What to do with the entries already queued, see `QueuePolicy`
+   *
+   * @default 'enqueue'
+   */
+  policy: QueuePolicy
+}
+
+export type QueueEntry = QueueOptions & {
+  id: number
+  text: string
+  status: 'pending' | 'speaking'
+}
+
+type Entry<V extends AnyVoice> = QueueEntry & {
+  options: Partial<Omit<SynthesisOptions, 'text'>> & VoiceFilter<V>
+  resolve: (result: SpeechResult) => void
+  reject: (reason: any) => void
+  handle?: SpeechHandle
+}
+
+const skipped: SpeechResult = { status: 'cancelled', elapsedTime: 0, charIndex: 0 }
+
+/**
+ * Coordinates speech from many sources, only one utterance is handed to the browser at a time so
+ * the rest can still be reordered, replaced or dropped.
+ *
+ * Subscribing emits the queue contents, the entry being spoken first, on every change.
+ */
+export class SpeechQueue<V extends AnyVoice = BrowserVoice>
+  implements InteropObservable<QueueEntry[]>
+{
+  private current?: Entry<V>
+  private pending: Entry<V>[] = []
+  private observers = new Set<Observer<QueueEntry[]>>()
+  private lastId = 0
+
+  constructor(readonly synthesis: Synthesis<V>) {}
+
+  /** Resolves when spoken, or as `'cancelled'` if skipped, dropped or replaced before that */
+  speak = <U extends VoiceFilter<V>>(
+    text: string,
+    options: Partial<QueueOptions & Omit<SynthesisOptions, 'text'>> & U = {} as U
+  ) =>
+    new Promise<SpeechResult>((resolve, reject) => {
+      const { priority = 0, channel = 'default', policy = 'enqueue', ...speechOptions } = options
+
+      if (policy === 'drop-if-busy' && (this.current || this.pending.length > 0))
+        return resolve(skipped)
+      if (policy === 'replace-same-channel') this.clear(channel)
+
+      const entry: Entry<V> = {
+        id: ++this.lastId,
+        text,
+        priority,
+        channel,
+        policy,
+        status: 'pending',
+        options: speechOptions as Entry<V>['options'],
+        resolve,
+        reject,
+      }
+
+      if (policy === 'interrupt') {
+        this.pending.unshift(entry)
+        this.current?.handle?.cancel()
+      } else {
+        const index = this.pending.findIndex(e => e.priority < priority)
+        this.pending.splice(index === -1 ? this.pending.length : index, 0, entry)
+      }
+
+      this.next()
+      this.emit()
+    })
+
+  /** Cancels what is being spoken, the next entry starts right away */
+  skip = () => this.current?.handle?.cancel()
+
+  /** Cancels every entry, or only those of the given channel */
+  clear = (channel?: string) => {
+    const matches = (entry: Entry<V>) => channel === undefined || entry.channel === channel
+
+    this.pending = this.pending.filter(entry => {
+      if (matches(entry)) entry.resolve(skipped)
+      return !matches(entry)
+    })
+    if (this.current && matches(this.current)) this.current.handle?.cancel()
+
+    this.emit()
+  }
+
+  get entries(): QueueEntry[] {
+    return [...(this.current ? [this.current] : []), ...this.pending].map(
+      ({ id, text, priority, channel, policy, status }) => ({
+        id,
+        text,
+        priority,
+        channel,
+        policy,
+        status,
+      })
+    )
+  }
+
+  declare [Symbol.observable]: () => this;
+  // @ts-ignore
+  [Symbol_observable] = () => this
+
+  subscribe = (observer: Partial<Observer<QueueEntry[]>>): Unsubscribable => {
+    const subscriber = {
+      next: (observer.next ?? (() => {})).bind(observer),
+      error: (observer.error ?? (() => {})).bind(observer),
+      complete: (observer.complete ?? (() => {})).bind(observer),
+    }
+
+    this.observers.add(subscriber)
+    subscriber.next(this.entries)
+
+    return {
+      unsubscribe: () => this.observers.delete(subscriber),
+    }
+  }
+
+  private next = () => {
+    if (this.current || this.pending.length === 0) return
+
+    const entry = (this.current = this.pending.shift()!)
+    entry.status = 'speaking'
+    entry.handle = this.synthesis.use(entry.options).speak(entry.text)
+
+    const settle = () => {
+      if (this.current === entry) this.current = undefined
+      this.next()
+      this.emit()
+    }
+
+    entry.handle.then(
+      result => {
+        entry.resolve(result)
+        settle()
+      },
+      reason => {
+        entry.reject(reason)
+        settle()
+      }
+    )
+  }
+
+  private emit = () => {
+    const entries = this.entries
+    this.observers.forEach(observer => observer.next(entries))
+  }
+}
@@ -0,0 +1,110 @@
+/** A description of an acceptable voice. `lang` also matches by prefix, so `'fr'` matches `'fr-CA'`. */
+export type VoiceCandidate = {
+  name?: string
+  lang?: string
+  voiceURI?: string
+  localService?: boolean
+  default?: boolean
+}
+
+/** Score added to voices with these properties, to break ties between voices of the same candidate */
+export type VoiceWeights = {
+  localService: number
+  default: number
+}
+
+export type VoiceMatch = {
+  voice: SpeechSynthesisVoice
+  /** The first candidate the voice matched, `undefined` if it was picked as a last resort */
+  candidate?: VoiceCandidate
+  score: number
+  /** Why the voice was picked, in plain words, for debugging and reporting */
+  reasons: string[]
+}
+
+const defaultWeights: VoiceWeights = { localService: 2, default: 1 }
+
+/**
+ * Ranks `voices` by the first candidate each one matches, earlier candidates first. Never comes
+ * empty-handed if there are voices at all: when no candidate matches, every voice is ranked by
+ * `weights` alone.
+ */
+export const rankVoices = (
+  voices: SpeechSynthesisVoice[],
+  candidates: VoiceCandidate[],
+  weights: Partial<VoiceWeights> = {}
+): VoiceMatch[] => {
+  const { localService, default: isDefault } = { ...defaultWeights, ...weights }
+
+  const weigh = (voice: SpeechSynthesisVoice) => {
+    const reasons: string[] = []
+    let score = 0
+    if (voice.localService) {
+      score += localService
+      reasons.push('is a local voice')
+    }
+    if (voice.default) {
+      score += isDefault
+      reasons.push('is the default voice')
+    }
+    return { score, reasons }
+  }
+
+  const ranked = voices.flatMap(voice => {
+    const index = candidates.findIndex(candidate => matchCandidate(voice, candidate))
+    if (index === -1) return []
+
+    const candidate = candidates[index]
+    const lang =
+      candidate.lang === undefined
+        ? 'none'
+        : sameLang(voice.lang, candidate.lang)
+        ? 'exact'
+        : 'prefix'
+    const weight = weigh(voice)
+
+    return [
+      {
+        voice,
+        candidate,
+        score: (candidates.length - index) * 100 + (lang === 'exact' ? 10 : 0) + weight.score,
+        reasons: [
+          `matched candidate #${index + 1} ${JSON.stringify(candidate)}`,
+          ...(lang === 'prefix' ? [`'${voice.lang}' is a variant of '${candidate.lang}'`] : []),
+          ...weight.reasons,
+        ],
+      },
+    ]
+  })
+
+  const matches: VoiceMatch[] =
+    ranked.length > 0 || candidates.length === 0
+      ? ranked
+      : voices.map(voice => {
+          const weight = weigh(voice)
+          return {
+            voice,
+            score: weight.score,
+            reasons: ['no candidate matched, picked as a last resort', ...weight.reasons],
+          }
+        })
+
+  // Array.prototype.sort is stable, voices keep the browser order on ties
+  return matches.sort((a, b) => b.score - a.score)
+}
+
+const matchCandidate = (voice: SpeechSynthesisVoice, candidate: VoiceCandidate) =>
+  (Object.keys(candidate) as (keyof VoiceCandidate)[]).every(key =>
+    candidate[key] === undefined
+      ? true
+      : key === 'lang'
+      ? sameLang(voice.lang, candidate.lang!) || langPrefix(voice.lang, candidate.lang!)
+      : voice[key] === candidate[key]
+  )
+
+const normalizeLang = (lang: string) => lang.replace(/_/g, '-').toLowerCase()
+
+const sameLang = (a: string, b: string) => normalizeLang(a) === normalizeLang(b)
+
+const langPrefix = (lang: string, prefix: string) =>
+  normalizeLang(lang).startsWith(normalizeLang(prefix) + '-')
@@ -1,16 +1,32 @@
 import Symbol_observable from 'symbol-observable'
 
-import { InteropObservable, Observer, Unsubscribable } from './util'
+import { AbortOptions, watchAbort } from './abort'
+import { RecognitionControl, RecognitionEngine, webRecognitionEngine } from './engine'
+import { recognitionError } from './errors'
+import { Grammar } from './grammar'
+import { RecognitionSession, SessionOptions } from './session'
+import { InteropObservable, LiteralUnion, Observer, Unsubscribable } from './util'
 
-export type RecognitionOptions = {
-  // grammars: SpeechGrammarList
+export type RecognitionOptions = AbortOptions & {
+  /**
+   * Phrases to expect, handed to engines that take grammars, which most browsers ignore. So the
+   * alternatives matching it are also ranked first, pair it with a `maxAlternatives` above 1.
+   */
+  grammar?: Grammar<any>
   lang: RecognitionLang
   continuous: boolean
   interimResults: boolean
   maxAlternatives: number
+
+  /**
+   * What actually listens, see `RecognitionEngine` for writing one
+   *
+   * @default webRecognitionEngine
+   */
+  engine: RecognitionEngine
 }
 
-export type RecognitionLang = typeof langs[number]
+export type RecognitionLang = LiteralUnion<typeof langs[number]>
 
 export class Recognition implements InteropObservable<RecognitionEvent> {
   constructor(readonly options: RecognitionOptions) {}
@@ -18,54 +34,178 @@ export class Recognition implements InteropObservable<RecognitionEvent> {
   use = (options: Partial<RecognitionOptions>) => new Recognition({ ...this.options, ...options })
 
   listen = () =>
-    new Promise<string>((resolve, reject) =>
-      Object.assign(new webkitSpeechRecognition(), {
-        lang: this.options.lang,
-        continuous: false,
-        interimResults: false,
-        onerror: reject,
-        onresult: (e: SpeechRecognitionEventMap['result']) =>
-          resolve(e.results[e.resultIndex][0].transcript),
-      }).start()
-    );
+    this.listenOnce<string>((e, resolve, reject) => {
+      if (e.tag === 'final') resolve(e.alternatives[0].transcript)
+      else if (e.tag === 'error') reject(e)
+      else if (e.tag === 'end') reject({ error: 'no-speech', message: 'Ended without a result' })
+    })
+
+  /**
+   * Listens to a single utterance like `listen`, but resolves with every alternative, up to
+   * `maxAlternatives`, and when and how listening ended. Silence resolves with no alternatives
+   * instead of rejecting.
+   */
+  listenDetailed = () => {
+    let result: Omit<ListenResult, 'endTime'> = {
+      alternatives: [],
+      lang: this.options.lang,
+      endReason: 'silence',
+      startTime: Date.now(),
+    }
+
+    return this.listenOnce<ListenResult>((e, resolve, reject) => {
+      const time = Date.now()
+      if (e.tag === 'start') result.startTime = time
+      else if (e.tag === 'speechstart') result.speechStartTime = time
+      else if (e.tag === 'speechend') result.speechEndTime = time
+      else if (e.tag === 'nomatch') result.endReason = 'nomatch'
+      else if (e.tag === 'final')
+        result = {
+          ...result,
+          endReason: 'final',
+          alternatives: e.alternatives.slice(0, Math.max(1, this.options.maxAlternatives)),
+        }
+      else if (e.tag === 'error' && e.error !== 'no-speech') reject(e)
+      else if (e.tag === 'end') resolve({ ...result, endTime: time })
+    })
+  }
+
+  /**
+   * A single long-lived stream across sessions, listening again whenever the engine ends, see
+   * `RecognitionSession`. Pair it with `continuous` to lose fewer words between sessions.
+   */
+  session = (options: Partial<SessionOptions> = {}) =>
+    new RecognitionSession(this, {
+      retryDelay: 250,
+      maxRetryDelay: 30000,
+      maxRetries: Infinity,
+      stableAfter: 1000,
+      ...options,
+    });
 
   declare [Symbol.observable]: () => this;
   // @ts-ignore
   [Symbol_observable] = () => this
 
-  subscribe = (observer: Partial<Observer<RecognitionEvent>>): Unsubscribable => {
+  subscribe = (observer: Partial<Observer<TimedRecognitionEvent>>): Unsubscribable => {
     const subscriber = {
       next: (observer.next ?? (() => {})).bind(observer),
       error: (observer.error ?? (() => {})).bind(observer),
       complete: (observer.complete ?? (() => {})).bind(observer),
     }
 
-    const recognition = [
-      'audioend',
-      'audiostart',
-      'end',
-      'error',
-      'nomatch',
-      'result',
-      'soundend',
-      'soundstart',
-      'speechend',
-      'speechstart',
-      'start',
-    ].reduce((acc, next) => {
-      acc.addEventListener(next, e =>
-        subscriber.next(toRecognitionEvent(Object.assign(e, { tag: next }) as TaggedEvent))
+    try {
+      const control = this.options.engine.start(
+        this.options,
+        timed(e => {
+          subscriber.next(this.rerank(e))
+          if (e.tag === 'end') subscriber.complete()
+        })
       )
-      return acc
-    }, Object.assign(new webkitSpeechRecognition(), this.options))
-
-    recognition.addEventListener('end', () => subscriber.complete())
-    recognition.start()
 
-    return {
-      unsubscribe: () => recognition.stop(),
+      return {
+        unsubscribe: () => control.stop(),
+      }
+    } catch (e) {
+      subscriber.error(e)
+      return { unsubscribe: () => {} }
     }
   }
+
+  private rerank = (e: TimedRecognitionEvent): TimedRecognitionEvent =>
+    this.options.grammar && (e.tag === 'interim' || e.tag === 'final')
+      ? { ...e, alternatives: this.options.grammar.rerank(e.alternatives) }
+      : e
+
+  /** A single utterance session, settled by `onEvent` or by the abort options */
+  private listenOnce = <T>(
+    onEvent: (
+      e: TimedRecognitionEvent,
+      resolve: (value: T) => void,
+      reject: (e: { error: SpeechRecognitionErrorCode; message: string }) => void
+    ) => void
+  ) =>
+    new Promise<T>((resolve, reject) => {
+      const options = { ...this.options, continuous: false, interimResults: false }
+      let control: RecognitionControl | undefined
+      let settled = false
+
+      const settle = () => {
+        settled = true
+        watcher.dispose()
+      }
+      const watcher = watchAbort(options, {
+        abort: error => {
+          if (settled) return
+          settled = true
+          control?.abort()
+          reject(error)
+        },
+        stop: () => control?.stop(),
+      })
+
+      try {
+        control = options.engine.start(
+          options,
+          timed(event => {
+            if (settled) return
+            const e = this.rerank(event)
+            if (['soundstart', 'speechstart', 'interim', 'final'].includes(e.tag)) watcher.heard()
+            onEvent(
+              e,
+              value => {
+                settle()
+                resolve(value)
+              },
+              ({ error, message }) => {
+                settle()
+                reject(recognitionError(error, message, options))
+              }
+            )
+          })
+        )
+      } catch (e) {
+        settle()
+        reject(e)
+      }
+    })
+}
+
+const now = () => (typeof performance === 'undefined' ? Date.now() : performance.now())
+
+/** Adds the timing to the events of an engine session, started when this is called */
+const timed = (emit: (e: TimedRecognitionEvent) => void) => {
+  const started = now()
+  let speechStartAt = 0
+  let speechEndAt: number | undefined
+  let previousFinal = 0
+
+  return (e: RecognitionEvent) => {
+    const time = now()
+    const offset = time - started
+
+    if (e.tag === 'speechstart') {
+      speechStartAt = offset
+      speechEndAt = undefined
+    } else if (e.tag === 'speechend') speechEndAt = offset
+
+    if (e.tag !== 'final')
+      // browser events are tagged in place too, their fields are getters spreading would lose
+      return emit(Object.assign(e, { time, offset }) as TimedRecognitionEvent)
+
+    const speechStart = Math.max(speechStartAt, previousFinal)
+    const ended = speechEndAt !== undefined && speechEndAt >= speechStart
+    previousFinal = offset
+
+    emit({
+      ...e,
+      time,
+      offset,
+      speechStart,
+      speechEnd: ended ? speechEndAt! : offset,
+      latency: ended ? offset - speechEndAt! : undefined,
+    })
+  }
 }
 
 export const recognition = new Recognition({
@@ -73,31 +213,65 @@ export const recognition = new Recognition({
   continuous: false,
   interimResults: false,
   maxAlternatives: 1,
+  engine: webRecognitionEngine,
 })
 
-type TaggedEvent = {
-  [K in keyof SpeechRecognitionEventMap]: {
-    tag: K
-  } & SpeechRecognitionEventMap[K]
-}[keyof SpeechRecognitionEventMap]
+export type ListenResult = {
+  /** Best first, empty unless it ended with a `'final'` result */
+  alternatives: Array<{ transcript: string; confidence: number }>
+  lang: RecognitionLang
+  endReason: 'final' | 'nomatch' | 'silence'
+  /** Timestamps in milliseconds since the epoch, speech ones only if the engine reported them */
+  startTime: number
+  speechStartTime?: number
+  speechEndTime?: number
+  endTime: number
+}
+
+type RecognitionResult = {
+  alternatives: Array<{ transcript: string; confidence: number }>
+  /**
+   * Position of the result in the session, it replaces the results from there on. A browser event
+   * changing several results is one of these for each.
+   */
+  index?: number
+}
 
+/**
+ * Events of a recognition session. Engines other than the browser one only need to give these
+ * fields, while the browser ones are the original events, tagged.
+ */
 export type RecognitionEvent =
-  | {
-      tag: 'interim' | 'final'
-      alternatives: Array<{ transcript: string; confidence: number }>
-    }
-  | Exclude<TaggedEvent, { tag: 'result' }>
-
-const toRecognitionEvent = (e: TaggedEvent): RecognitionEvent =>
-  e.tag === 'result'
-    ? {
-        tag: e.results[e.resultIndex].isFinal ? 'final' : 'interim',
-        alternatives: Array.from(e.results[e.resultIndex]).map(a => ({
-          transcript: a.transcript,
-          confidence: a.confidence,
-        })),
-      }
-    : e
+  | ({ tag: 'interim' } & RecognitionResult)
+  | ({ tag: 'final' } & RecognitionResult)
+  | { tag: 'error'; error: SpeechRecognitionErrorCode; message: string }
+  | { tag: Exclude<keyof SpeechRecognitionEventMap, 'result' | 'error'> }
+
+/** When an event was emitted, every event of `subscribe` has these */
+export type EventTiming = {
+  /** `performance.now()` when emitted, monotonic, unlike the `timeStamp` of browser events */
+  time: number
+  /** Milliseconds since the engine was started */
+  offset: number
+}
+
+/**
+ * Estimated from the `speechstart` and `speechend` events, when the engine has them, in
+ * milliseconds since the engine was started, like `offset`
+ */
+export type SpeechTiming = {
+  /** The later of `speechstart` and the previous final result */
+  speechStart: number
+  /** `speechend` if it came before this result, otherwise the result's own offset */
+  speechEnd: number
+  /** From `speechend` to this result, only if it came before it */
+  latency?: number
+}
+
+type Timed<E> = E extends { tag: 'final' } ? E & EventTiming & SpeechTiming : E & EventTiming
+
+/** What `subscribe` emits, the engine events with their timing */
+export type TimedRecognitionEvent = Timed<RecognitionEvent>
 
 /**
  * Languages listed on chrome speech api demo
@@ -0,0 +1,121 @@
+import Symbol_observable from 'symbol-observable'
+
+import { RecognitionError, recognitionError } from './errors'
+import type { Recognition, TimedRecognitionEvent } from './recognition'
+import { InteropObservable, Observer, Unsubscribable } from './util'
+
+export type SessionOptions = {
+  /**
+   * Milliseconds before listening again after a failed session, doubling with each failure in a
+   * row. Other sessions restart right away.
+   *
+   * @default 250
+   */
+  retryDelay: number
+  /**
+   * The longest wait between failed sessions
+   *
+   * @default 30000
+   */
+  maxRetryDelay: number
+  /**
+   * Failed sessions in a row before giving up, erroring with the last error, or completing
+   *
+   * @default Infinity
+   */
+  maxRetries: number
+  /**
+   * Milliseconds after which a session that heard nothing didn't fail, even if it ended in an
+   * error, like `no-speech` after a few seconds of silence
+   *
+   * @default 1000
+   */
+  stableAfter: number
+}
+
+/**
+ * The events of every session, numbered from 1, and a `'restart'` between sessions telling how long
+ * until the next one and the error that ended the last, if any
+ */
+export type SessionEvent =
+  | (TimedRecognitionEvent & { session: number })
+  | { tag: 'restart'; session: number; delay: number; error?: SpeechRecognitionErrorCode }
+
+/**
+ * Recognition that keeps going, listening again whenever the engine ends, on silence, network
+ * errors or the browser's own time limit, until unsubscribed. Sessions ending quickly without
+ * hearing anything are failures, retried with exponential backoff, and errors listening again won't
+ * fix, like `not-allowed`, end it.
+ */
+export class RecognitionSession implements InteropObservable<SessionEvent> {
+  constructor(readonly recognition: Recognition, readonly options: SessionOptions) {}
+
+  declare [Symbol.observable]: () => this;
+  // @ts-ignore
+  [Symbol_observable] = () => this
+
+  subscribe = (observer: Partial<Observer<SessionEvent>>): Unsubscribable => {
+    const subscriber = {
+      next: (observer.next ?? (() => {})).bind(observer),
+      error: (observer.error ?? (() => {})).bind(observer),
+      complete: (observer.complete ?? (() => {})).bind(observer),
+    }
+    const { retryDelay, maxRetryDelay, maxRetries, stableAfter } = this.options
+
+    let current: Unsubscribable | undefined
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let stopped = false
+    let failures = 0
+    let count = 0
+
+    const stop = () => {
+      stopped = true
+      clearTimeout(timer)
+      current?.unsubscribe()
+    }
+
+    const start = () => {
+      const session = ++count
+      const startTime = Date.now()
+      let heard = false
+      let error: RecognitionError | undefined
+
+      current = this.recognition.subscribe({
+        next: e => {
+          if (stopped) return
+          // in place like the timing, browser event fields are getters
+          subscriber.next(Object.assign(e, { session }))
+
+          if (e.tag === 'error') {
+            error = recognitionError(e.error, e.message, this.recognition.options)
+            if (!error.recoverable) {
+              stop()
+              subscriber.error(error)
+            }
+          } else if (['speechstart', 'interim', 'final'].includes(e.tag)) heard = true
+        },
+        error: e => {
+          stop()
+          subscriber.error(e)
+        },
+        complete: () => {
+          if (stopped) return
+
+          const failed = !heard && Date.now() - startTime < stableAfter
+          failures = failed ? failures + 1 : 0
+          if (failures > maxRetries) {
+            stop()
+            return error ? subscriber.error(error) : subscriber.complete()
+          }
+
+          const delay = failed ? Math.min(retryDelay * 2 ** (failures - 1), maxRetryDelay) : 0
+          subscriber.next({ tag: 'restart', session, delay, error: error?.code })
+          timer = setTimeout(start, delay)
+        },
+      })
+    }
+
+    start()
+    return { unsubscribe: stop }
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Flat result of parsing SSML, `rate`, `pitch` and `volume` are multipliers over whatever the
+ * synthesis instance already uses.
+ */
+export type SsmlSegment =
+  | {
+      tag: 'text'
+      text: string
+      rate: number
+      pitch: number
+      volume: number
+      voice: { name?: string; lang?: string }
+    }
+  | { tag: 'break'; time: number }
+  | { tag: 'mark'; name: string }
+
+type SsmlNode = string | { name: string; attributes: Record<string, string>; children: SsmlNode[] }
+
+type Context = Omit<Extract<SsmlSegment, { tag: 'text' }>, 'tag' | 'text'>
+
+/**
+ * Parses the subset of SSML browsers would need to support for our use: `<speak>`, `<break>`,
+ * `<prosody>`, `<emphasis>`, `<voice>`, `<say-as>` and `<mark>`. Other elements are ignored but
+ * their text is kept.
+ *
+ * Adjacent text with the same prosody and voice is merged into one segment. Only `<voice>` selects
+ * voices, the mandatory `xml:lang` of `<speak>` is left out.
+ */
+export const parseSsml = (ssml: string): SsmlSegment[] => {
+  const segments: SsmlSegment[] = []
+  walk(parse(ssml), { rate: 1, pitch: 1, volume: 1, voice: {} }, segments)
+  return segments.filter(segment => segment.tag !== 'text' || segment.text.trim() !== '')
+}
+
+const parse = (ssml: string) => {
+  const root: Extract<SsmlNode, object> = { name: '', attributes: {}, children: [] }
+  const stack = [root]
+  const token = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<(\/?)([\w:.-]+)([^<>]*?)(\/?)>|([^<]+)|</g
+
+  for (const [match, closing, name, attributes, selfClosing, text] of ssml.matchAll(token)) {
+    const parent = stack[stack.length - 1]
+
+    if (text !== undefined) parent.children.push(decode(text))
+    else if (closing) {
+      if (parent.name !== name) throw new Error(`Invalid SSML: unexpected '${match}'`)
+      stack.pop()
+    } else if (name !== undefined) {
+      const node = { name, attributes: parseAttributes(attributes), children: [] }
+      parent.children.push(node)
+      if (!selfClosing) stack.push(node)
+    } else if (match === '<') throw new Error(`Invalid SSML: unexpected '<'`)
+  }
+
+  if (stack.length > 1)
+    throw new Error(`Invalid SSML: unclosed '<${stack[stack.length - 1].name}>'`)
+
+  return root.children
+}
+
+const parseAttributes = (attributes: string) =>
+  Object.fromEntries(
+    Array.from(
+      attributes.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g),
+      ([, key, a, b]) => [key, decode(a ?? b)]
+    )
+  )
+
+const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+const decode = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (match, entity: string) =>
+    entity[0] !== '#'
+      ? entities[entity] ?? match
+      : String.fromCodePoint(
+          entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : +entity.slice(1)
+        )
+  )
+
+const textContent = (nodes: SsmlNode[]): string =>
+  nodes.map(node => (typeof node === 'string' ? node : textContent(node.children))).join('')
+
+const walk = (nodes: SsmlNode[], context: Context, segments: SsmlSegment[]): void =>
+  nodes.forEach(node => {
+    if (typeof node === 'string') return pushText(node, context, segments)
+
+    const { attributes, children } = node
+
+    switch (node.name) {
+      case 'break':
+        return segments.push({ tag: 'break', time: breakTime(attributes) })
+      case 'mark':
+        return segments.push({ tag: 'mark', name: attributes.name ?? '' })
+      case 'say-as':
+        return pushText(sayAs(attributes['interpret-as'], textContent(children)), context, segments)
+      case 'voice':
+        return walk(
+          children,
+          {
+            ...context,
+            voice: Object.fromEntries(
+              (['name', 'lang'] as const)
+                .map(key => [
+                  key,
+                  attributes[key] ?? (key === 'lang' ? attributes['xml:lang'] : ''),
+                ])
+                .filter(([, value]) => value)
+            ),
+          },
+          segments
+        )
+      case 'prosody':
+        return walk(
+          children,
+          {
+            ...context,
+            rate: context.rate * scale(attributes.rate, rates),
+            pitch: context.pitch * scale(attributes.pitch, pitches),
+            volume: context.volume * scale(attributes.volume, volumes),
+          },
+          segments
+        )
+      case 'emphasis': {
+        const emphasis = own(emphases, attributes.level) ?? emphases.moderate
+        return walk(
+          children,
+          {
+            ...context,
+            rate: context.rate * emphasis.rate,
+            pitch: context.pitch * emphasis.pitch,
+            volume: context.volume * emphasis.volume,
+          },
+          segments
+        )
+      }
+      default:
+        return walk(children, context, segments)
+    }
+  })
+
+const pushText = (text: string, context: Context, segments: SsmlSegment[]) => {
+  const last = segments[segments.length - 1]
+  text = text.replace(/\s+/g, ' ')
+
+  if (
+    last?.tag === 'text' &&
+    last.rate === context.rate &&
+    last.pitch === context.pitch &&
+    last.volume === context.volume &&
+    last.voice.name === context.voice.name &&
+    last.voice.lang === context.voice.lang
+  )
+    last.text = (last.text + text).replace(/\s+/g, ' ')
+  else segments.push({ tag: 'text', text, ...context })
+}
+
+/** The value of a key of `record` itself, `toString` and the like aren't attribute values */
+const own = <T>(record: Record<string, T>, key: string | undefined) =>
+  key !== undefined && Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined
+
+const rates = { 'x-slow': 0.5, slow: 0.75, medium: 1, fast: 1.5, 'x-fast': 2, default: 1 }
+const pitches = { 'x-low': 0.5, low: 0.75, medium: 1, high: 1.25, 'x-high': 1.5, default: 1 }
+const volumes = {
+  silent: 0,
+  'x-soft': 0.25,
+  soft: 0.5,
+  medium: 1,
+  loud: 1,
+  'x-loud': 1,
+  default: 1,
+}
+
+const emphases: Record<string, { rate: number; pitch: number; volume: number }> = {
+  strong: { rate: 0.8, pitch: 1.15, volume: 1 },
+  moderate: { rate: 0.9, pitch: 1.1, volume: 1 },
+  reduced: { rate: 1.1, pitch: 0.9, volume: 0.75 },
+  none: { rate: 1, pitch: 1, volume: 1 },
+}
+
+/**
+ * Turns a prosody attribute into a multiplier. Absolute units browsers have no way to express (like
+ * `Hz`) are ignored.
+ */
+const scale = (value: string | undefined, keywords: Record<string, number>) => {
+  if (value === undefined) return 1
+  const keyword = own(keywords, value)
+  if (keyword !== undefined) return keyword
+
+  const [, number, unit] = /^([+-]?\d*\.?\d+)(%|dB|st)?$/.exec(value.trim()) ?? []
+  if (number === undefined) return 1
+
+  const n = parseFloat(number)
+  const relative = /^[+-]/.test(number)
+
+  if (unit === '%') return relative ? 1 + n / 100 : n / 100
+  if (unit === 'dB') return 10 ** (n / 20)
+  if (unit === 'st') return 2 ** (n / 12)
+  return relative ? 1 + n : n
+}
+
+const strengths: Record<string, number> = {
+  none: 0,
+  'x-weak': 100,
+  weak: 250,
+  medium: 500,
+  strong: 750,
+  'x-strong': 1000,
+}
+
+const breakTime = (attributes: Record<string, string>) => {
+  const [, time, unit] = /^(\d*\.?\d+)(ms|s)$/.exec(attributes.time?.trim() ?? '') ?? []
+  if (time !== undefined) return parseFloat(time) * (unit === 's' ? 1000 : 1)
+  return own(strengths, attributes.strength) ?? strengths.medium
+}
+
+const sayAs = (interpretAs: string | undefined, text: string) => {
+  switch (interpretAs) {
+    case 'characters':
+    case 'spell-out':
+    case 'letters':
+      return Array.from(text.replace(/\s+/g, '')).join(' ')
+    case 'digits':
+    case 'telephone':
+      return text.replace(/\d/g, ' $& ').replace(/\s+/g, ' ').trim()
+    default:
+      return text
+  }
+}
@@ -1,4 +1,15 @@
-export type SynthesisOptions = {
+import Symbol_observable from 'symbol-observable'
+
+import { AbortOptions, watchAbort } from './abort'
+import { chunkText, sentencesOf } from './chunk'
+import { SynthesisEngine, webSpeechEngine } from './engine'
+import { SynthesisError, VoiceNotFoundError } from './errors'
+import { rankVoices, VoiceCandidate, VoiceMatch, VoiceWeights } from './ranking'
+import { parseSsml } from './ssml'
+import { InteropObservable, LiteralUnion, Observer, Unsubscribable } from './util'
+import { BrowserVoice } from './voices'
+
+export type SynthesisOptions = AbortOptions & {
   /** The text to be spoken. */
   text: string
 
@@ -22,6 +33,22 @@ export type SynthesisOptions = {
    * @default 1
    */
   pitch: number
+
+  /**
+   * Max characters per utterance, longer text is split between sentences, clauses or words and
+   * spoken as one. Chrome cuts utterances off after around 15 seconds, and may never start very
+   * long ones.
+   *
+   * @default 200
+   */
+  chunkLength: number
+
+  /**
+   * What actually speaks, switching it with `use` starts over from all the voices of the new engine
+   *
+   * @default webSpeechEngine
+   */
+  engine: SynthesisEngine
 }
 
 /**
@@ -32,52 +59,88 @@ export type SynthesisOptions = {
  * 1. Enables point-free style
  * 2. Enables better type inference to give you autocomplete
  */
-export class Synthesis<V extends BrowserVoice = BrowserVoice> {
-  static getAllVoices = () =>
-    new Promise<Array<SpeechSynthesisVoice>>(resolve => {
-      const voices = speechSynthesis.getVoices()
-      if (voices.length > 0) resolve(voices)
-      else
-        speechSynthesis.addEventListener('voiceschanged', function resolver() {
-          speechSynthesis.removeEventListener('voiceschanged', resolver)
-          resolve(speechSynthesis.getVoices())
-        })
-    })
+export class Synthesis<V extends AnyVoice = BrowserVoice>
+  implements InteropObservable<SynthesisEvent>
+{
+  static getAllVoices = () => webSpeechEngine.getVoices()
 
   constructor(
     readonly options: SynthesisOptions,
-    readonly getVoices: () => Promise<SpeechSynthesisVoice[]>
+    readonly matchVoices: () => Promise<VoiceMatch[]>
   ) {}
 
-  resetVoice = () => new Synthesis(this.options, Synthesis.getAllVoices)
+  /** The voices allowed by `use` and `prefer`, best first */
+  getVoices = () => this.matchVoices().then(matches => matches.map(match => match.voice))
 
-  use = <U extends Partial<V>>(config: Partial<SynthesisOptions> & U) => {
-    const voiceOptions = voiceKeys.filter(k => k in config).map(k => [k, config[k]])
+  /** The voice `speak` would use and why it was picked, `undefined` if there are no voices */
+  resolveVoice = () => this.matchVoices().then(([match]): VoiceMatch | undefined => match)
 
-    return new Synthesis<Extract<V, U>>(
-      {
-        text: config.text ?? this.options.text,
-        volume: clamp(0, 1)(config.volume ?? this.options.volume),
-        rate: clamp(0.1, 10)(config.rate ?? this.options.rate),
-        pitch: clamp(0, 2)(config.pitch ?? this.options.pitch),
-      },
-      async () => {
-        const voices = (await this.getVoices()).filter(voice =>
-          voiceOptions.every(([k, v]) => v === (voice as any)[k])
-        )
-
-        if (voices.length === 0)
-          throw new Error(
-            `No voices found with the following options: '${JSON.stringify(
-              Object.fromEntries(voiceOptions)
-            )}'`
-          )
+  resetVoice = (): Synthesis => new Synthesis(this.options, allVoices(this.options.engine))
 
-        return voices
-      }
-    )
+  use = <U extends VoiceFilter<V>>(config: Partial<SynthesisOptions> & U) => {
+    const voiceOptions = voiceKeys.filter(k => k in config).map(k => [k, config[k]] as const)
+    const engine = config.engine ?? this.options.engine
+    const matchVoices = engine === this.options.engine ? this.matchVoices : allVoices(engine)
+
+    const options = {
+      text: config.text ?? this.options.text,
+      volume: clamp(0, 1)(config.volume ?? this.options.volume),
+      rate: clamp(0.1, 10)(config.rate ?? this.options.rate),
+      pitch: clamp(0, 2)(config.pitch ?? this.options.pitch),
+      chunkLength: Math.max(1, config.chunkLength ?? this.options.chunkLength),
+      engine,
+      signal: config.signal ?? this.options.signal,
+      timeout: config.timeout ?? this.options.timeout,
+      initialSilenceTimeout: config.initialSilenceTimeout ?? this.options.initialSilenceTimeout,
+      maxDuration: config.maxDuration ?? this.options.maxDuration,
+    }
+
+    return new Synthesis<Narrow<V, U>>(options, async () => {
+      const matches = (await matchVoices()).filter(({ voice }) =>
+        voiceOptions.every(([k, v]) => v === (voice as any)[k])
+      )
+
+      if (matches.length === 0)
+        throw new VoiceNotFoundError(options, Object.fromEntries(voiceOptions))
+
+      return voiceOptions.length === 0
+        ? matches
+        : matches.map(match => ({
+            ...match,
+            reasons: [
+              ...match.reasons,
+              voiceOptions.map(([k, v]) => `${k} is ${JSON.stringify(v)}`).join(', '),
+            ],
+          }))
+    })
   }
 
+  /**
+   * Ranks the voices by a chain of candidates instead of requiring an exact match like `use`, so
+   * the same code still finds a fitting voice on machines that lack the first choice:
+   *
+   * ```ts
+   * synthesis.prefer([
+   *   { name: 'Jacques' },
+   *   { lang: 'fr-FR', localService: true },
+   *   { lang: 'fr' },
+   * ])
+   * ```
+   *
+   * Falls back to any voice when no candidate matches, check `resolveVoice` to know which won.
+   */
+  prefer = (candidates: VoiceCandidate[], weights?: Partial<VoiceWeights>) =>
+    new Synthesis<V>(this.options, async () => {
+      const matches = await this.matchVoices()
+      const previous = new Map(matches.map(match => [match.voice, match.reasons]))
+
+      return rankVoices(
+        matches.map(match => match.voice),
+        candidates,
+        weights
+      ).map(match => ({ ...match, reasons: [...previous.get(match.voice)!, ...match.reasons] }))
+    })
+
   // idk why, the union on args breaks rollup
   // } = <U extends Partial<V>>(
   //   ...args: (
@@ -88,71 +151,479 @@ export class Synthesis<V extends BrowserVoice = BrowserVoice> {
   //   )
 
   speak: {
-    (): Promise<void>
-    <U extends Partial<V>>(options: Partial<SynthesisOptions> & U): Promise<void>
-    (text: string): Promise<void>
-    <U extends Partial<V>>(
+    (): SpeechHandle
+    <U extends VoiceFilter<V>>(options: Partial<SynthesisOptions> & U): SpeechHandle
+    (text: string): SpeechHandle
+    <U extends VoiceFilter<V>>(
       text: string,
       options: Partial<Exclude<SynthesisOptions, 'text'> & U>
-    ): Promise<void>
+    ): SpeechHandle
   } = (...args: any[]) => {
     if (args.length === 2) return this.use({ ...args[1], text: args[0] }).speak()
     else if (args.length === 1) {
       if (typeof args[0] === 'string') return this.use<{}>({ text: args[0] }).speak()
       else return this.use(args[0]).speak()
-    } else
-      return new Promise<void>(async (resolve, reject) =>
-        speechSynthesis.speak(
-          Object.assign(new SpeechSynthesisUtterance(this.options.text), {
-            voice: (await this.getVoices())[0],
-            volume: this.options.volume,
-            rate: this.options.rate,
-            pitch: this.options.pitch,
-            onend: resolve,
-            onerror: reject,
+    } else return new SpeechHandle([this.toPart()], undefined, this.options)
+  }
+
+  /**
+   * Speaks a subset of SSML, see `parseSsml`. Each piece of text is spoken by its own utterance,
+   * prosody is relative to this instance options. A `<voice>` picks among all the voices of the
+   * engine like `prefer`, keeping the voice of this instance if none fits.
+   */
+  speakSsml = (ssml: string, onEvent?: (event: SynthesisEvent) => void) =>
+    new SpeechHandle(
+      parseSsml(ssml).map(segment =>
+        segment.tag === 'text'
+          ? this.voiceOf(segment.voice)
+              .use<{}>({
+                text: segment.text,
+                volume: this.options.volume * segment.volume,
+                rate: this.options.rate * segment.rate,
+                pitch: this.options.pitch * segment.pitch,
+              })
+              .toPart()
+          : segment
+      ),
+      onEvent,
+      this.options
+    )
+
+  /**
+   * Speaks text as it arrives, like a streamed response. Fragments are buffered and each sentence
+   * is spoken as soon as it is complete, so speech can start before the stream is over.
+   */
+  speakStream = (fragments: AsyncIterable<string>, onEvent?: (event: SynthesisEvent) => void) => {
+    const sentences = this.getVoices().then(([voice]) =>
+      sentencesOf(fragments, voice?.lang)[Symbol.asyncIterator]()
+    )
+
+    return new SpeechHandle(
+      {
+        next: () =>
+          sentences
+            .then(iterator => iterator.next())
+            .then(
+              (sentence): IteratorResult<SpeechPart> =>
+                sentence.done ? sentence : { value: { ...this.toPart(), text: sentence.value } }
+            ),
+        return: () =>
+          sentences
+            .then(iterator => iterator.return!())
+            .then(() => ({ done: true, value: undefined })),
+      },
+      onEvent,
+      this.options
+    )
+  };
+
+  declare [Symbol.observable]: () => this;
+  // @ts-ignore
+  [Symbol_observable] = () => this
+
+  /** Speaks `options.text`, unsubscribing cancels it */
+  subscribe = (observer: Partial<Observer<SynthesisEvent>>): Unsubscribable => {
+    const subscriber = {
+      next: (observer.next ?? (() => {})).bind(observer),
+      error: (observer.error ?? (() => {})).bind(observer),
+      complete: (observer.complete ?? (() => {})).bind(observer),
+    }
+
+    const handle = new SpeechHandle([this.toPart()], subscriber.next, this.options)
+    handle.then(() => subscriber.complete(), subscriber.error)
+
+    return {
+      unsubscribe: () => handle.cancel(),
+    }
+  }
+
+  /** The engine voices of an SSML `<voice>`, by name and language, then by language alone */
+  private voiceOf = ({ name, lang }: { name?: string; lang?: string }) =>
+    name === undefined && lang === undefined
+      ? this
+      : new Synthesis<V>(this.options, async () => {
+          const candidates =
+            name !== undefined && lang !== undefined ? [{ name, lang }, { lang }] : [{ name, lang }]
+          const matches = rankVoices(await this.options.engine.getVoices(), candidates).filter(
+            match => match.candidate
+          )
+          return matches.length > 0 ? matches : this.matchVoices()
+        })
+
+  private toPart = (): Extract<SpeechPart, { tag: 'text' }> => ({
+    tag: 'text',
+    text: this.options.text,
+    options: this.options,
+    getVoices: this.getVoices,
+  })
+}
+
+export type SynthesisEvent =
+  | { tag: 'start' | 'pause' | 'resume' | 'end'; charIndex: number; elapsedTime: number }
+  | ({ tag: 'boundary'; elapsedTime: number } & SpeechBoundary)
+  | { tag: 'mark'; name: string; charIndex: number; elapsedTime: number }
+  | { tag: 'error'; error: SpeechSynthesisErrorCode; charIndex: number; elapsedTime: number }
+
+export type SpeechBoundary = {
+  name: 'word' | 'sentence'
+  charIndex: number
+  charLength: number
+  /** The word or sentence itself */
+  text: string
+}
+
+export type SpeechResult = {
+  status: 'completed' | 'cancelled'
+  /** Milliseconds since it started speaking, 0 if cancelled before that */
+  elapsedTime: number
+  charIndex: number
+  /** The last word/sentence boundary reached, if the browser reported any */
+  boundary?: SpeechBoundary
+}
+
+export type SpeechPart =
+  | {
+      tag: 'text'
+      text: string
+      options: SynthesisOptions
+      getVoices: () => Promise<SpeechSynthesisVoice[]>
+    }
+  | { tag: 'break'; time: number }
+  | { tag: 'mark'; name: string }
+
+/**
+ * Handles waiting to be spoken on each engine, or engines sharing a `queueKey`, in order. Only the
+ * first one is handed to the engine, so a handle made of many parts is never interleaved with
+ * others, and cancelling one doesn't need to touch the rest like `speechSynthesis.cancel()` would.
+ * An engine stuck on its voices only holds back its own handles.
+ */
+const queues = new WeakMap<object, SpeechHandle[]>()
+
+/**
+ * What `speak` returns, can be awaited like the promise it used to be, but also lets you control
+ * that single speech.
+ */
+export class SpeechHandle implements PromiseLike<SpeechResult> {
+  /** Character index on `text` of the last boundary reached */
+  charIndex = 0
+  /** Set once the speech is over, either completed or cancelled */
+  result?: SpeechResult
+  /** The text of all parts together, grows as parts arrive when they come from a stream */
+  text = ''
+
+  private promise: Promise<SpeechResult>
+  private resolve!: (result: SpeechResult) => void
+  private reject!: (reason: any) => void
+  private index = 0
+  private offset = 0
+  /** Set while an utterance is on an engine, callbacks from any other are stale */
+  private utterance?: { engine: SynthesisEngine }
+  private timer?: ReturnType<typeof setTimeout>
+  private parts: SpeechPart[] = []
+  private done = false
+  private paused = false
+  private stalled = false
+  private startTime?: number
+  private boundary?: SpeechBoundary
+  private watcher: ReturnType<typeof watchAbort>
+  private failed = false
+  private queue: SpeechHandle[]
+
+  constructor(
+    parts: SpeechPart[] | AsyncIterator<SpeechPart>,
+    private onEvent: (event: SynthesisEvent) => void = () => {},
+    options: AbortOptions & { engine?: SynthesisEngine } = {}
+  ) {
+    const engine = options.engine ?? webSpeechEngine
+    const key = engine.queueKey ?? engine
+    if (!queues.has(key)) queues.set(key, [])
+    this.queue = queues.get(key)!
+
+    this.promise = new Promise((resolve, reject) => Object.assign(this, { resolve, reject }))
+    this.watcher = watchAbort(options, {
+      abort: error => {
+        this.halt()
+        this.fail(error)
+      },
+      stop: () => this.cancel(),
+    })
+
+    if (Array.isArray(parts)) {
+      parts.forEach(this.append)
+      this.done = true
+    } else this.pull(parts)
+
+    this.queue.push(this)
+    if (this.queue[0] === this) this.play()
+  }
+
+  then: PromiseLike<SpeechResult>['then'] = (onfulfilled, onrejected) =>
+    this.promise.then(onfulfilled, onrejected)
+
+  catch: Promise<SpeechResult>['catch'] = onrejected => this.promise.catch(onrejected)
+
+  finally: Promise<SpeechResult>['finally'] = onfinally => this.promise.finally(onfinally)
+
+  /** Only has effect once this handle started speaking */
+  pause = () => {
+    if (this.startTime === undefined || this.over || this.paused) return
+    this.paused = true
+    this.utterance?.engine.pause()
+    this.emit('pause')
+  }
+
+  resume = () => {
+    if (!this.paused || this.over) return
+    this.paused = false
+    this.utterance?.engine.resume()
+    this.emit('resume')
+    this.unstall()
+  }
+
+  /**
+   * Stops this speech, or removes it from the queue if not started yet. A stream being spoken is
+   * not read any further.
+   */
+  cancel = () => {
+    if (this.over) return
+    this.halt()
+    this.finish('cancelled')
+  }
+
+  /** Either finished or failed, nothing should be spoken anymore */
+  private get over() {
+    return this.result !== undefined || this.failed
+  }
+
+  private get elapsedTime() {
+    return this.startTime === undefined ? 0 : Date.now() - this.startTime
+  }
+
+  private play = () => {
+    if (this.over) return
+    if (this.paused) return void (this.stalled = true)
+
+    const part = this.parts[this.index]
+    if (!part) return this.done ? this.finish('completed') : void (this.stalled = true)
+
+    if (this.startTime === undefined) {
+      this.startTime = Date.now()
+      this.emit('start')
+    }
+
+    if (part.tag === 'break') this.timer = setTimeout(this.advance, part.time)
+    else if (part.tag === 'mark') {
+      this.onEvent({
+        tag: 'mark',
+        name: part.name,
+        charIndex: this.offset,
+        elapsedTime: this.elapsedTime,
+      })
+      this.advance()
+    } else part.getVoices().then(voices => this.utter(part, voices[0]), this.fail)
+  }
+
+  private unstall = () => {
+    if (!this.stalled || this.paused) return
+    this.stalled = false
+    this.play()
+  }
+
+  private append = (part: SpeechPart) => {
+    this.parts.push(part)
+    if (part.tag === 'text') this.text += part.text
+  }
+
+  private pull = (iterator: AsyncIterator<SpeechPart>): Promise<unknown> =>
+    iterator.next().then(({ done, value }) => {
+      if (this.over) return iterator.return?.()
+      if (done) this.done = true
+      else this.append(value)
+
+      this.unstall()
+      return done || this.pull(iterator)
+    }, this.fail)
+
+  private advance = () => {
+    const part = this.parts[this.index++]
+    if (part?.tag === 'text') this.charIndex = this.offset += part.text.length
+    this.play()
+  }
+
+  private utter = (
+    part: Extract<SpeechPart, { tag: 'text' }>,
+    voice: SpeechSynthesisVoice | undefined,
+    chunks = chunkText(part.text, part.options.chunkLength, voice?.lang),
+    chunkOffset = 0
+  ) => {
+    if (this.over) return
+
+    const [chunk, ...rest] = chunks
+    const offset = this.offset + chunkOffset
+    this.watcher.heard()
+
+    const utterance = (this.utterance = { engine: part.options.engine })
+    const current = () => this.utterance === utterance
+
+    part.options.engine.speak(
+      {
+        text: chunk,
+        voice,
+        volume: part.options.volume,
+        rate: part.options.rate,
+        pitch: part.options.pitch,
+      },
+      {
+        onboundary: e => {
+          if (!current()) return
+
+          const charIndex = offset + e.charIndex
+          const charLength = e.charLength || /^\S*/.exec(this.text.slice(charIndex))![0].length
+
+          this.charIndex = charIndex
+          this.boundary = {
+            name: e.name as SpeechBoundary['name'],
+            charIndex,
+            charLength,
+            text: this.text.slice(charIndex, charIndex + charLength),
+          }
+          this.onEvent({ tag: 'boundary', elapsedTime: this.elapsedTime, ...this.boundary })
+        },
+        onmark: e => {
+          if (current())
+            this.onEvent({
+              tag: 'mark',
+              name: e.name,
+              charIndex: offset + e.charIndex,
+              elapsedTime: this.elapsedTime,
+            })
+        },
+        onend: () => {
+          if (!current()) return
+          this.detach()
+          if (rest.length > 0) this.utter(part, voice, rest, chunkOffset + chunk.length)
+          else this.advance()
+        },
+        onerror: e => {
+          if (!current()) return
+          this.onEvent({
+            tag: 'error',
+            error: e.error,
+            charIndex: this.charIndex,
+            elapsedTime: this.elapsedTime,
           })
-        )
-      )
+          this.fail(new SynthesisError(e.error, part.options, this.charIndex))
+        },
+      }
+    )
+    // paused while the voices were loading, before the engine had anything to pause
+    if (this.paused) part.options.engine.pause()
+  }
+
+  private detach = () => {
+    this.utterance = undefined
+  }
+
+  private halt = () => {
+    const engine = this.utterance?.engine
+    this.detach()
+    engine?.cancel()
+  }
+
+  private dequeue = () => {
+    const index = this.queue.indexOf(this)
+    if (index === -1) return
+    this.queue.splice(index, 1)
+    const wasFirst = index === 0
+    if (wasFirst) this.queue[0]?.play()
+  }
+
+  private emit = (tag: 'start' | 'pause' | 'resume' | 'end') =>
+    this.onEvent({ tag, charIndex: this.charIndex, elapsedTime: this.elapsedTime })
+
+  private fail = (reason: any) => {
+    if (this.over) return
+    this.failed = true
+    this.detach()
+    clearTimeout(this.timer)
+    this.watcher.dispose()
+    this.dequeue()
+    this.reject(reason)
+  }
+
+  private finish = (status: SpeechResult['status']) => {
+    this.detach()
+    clearTimeout(this.timer)
+    this.watcher.dispose()
+    if (status === 'completed') this.emit('end')
+    this.result = {
+      status,
+      elapsedTime: this.elapsedTime,
+      charIndex: this.charIndex,
+      boundary: this.boundary,
+    }
+    this.dequeue()
+    this.resolve(this.result)
   }
 }
 
-export const synthesis = new Synthesis(
-  { volume: 1, rate: 1, pitch: 1, text: '' },
-  Synthesis.getAllVoices
+const allVoices = (engine: SynthesisEngine) => () =>
+  engine
+    .getVoices()
+    .then(voices => voices.map((voice): VoiceMatch => ({ voice, score: 0, reasons: [] })))
+
+export const synthesis: Synthesis = new Synthesis(
+  { volume: 1, rate: 1, pitch: 1, chunkLength: 200, engine: webSpeechEngine, text: '' },
+  allVoices(webSpeechEngine)
 )
 
-export const speak = synthesis.speak
+export const speak: Synthesis['speak'] = synthesis.speak
 
 const clamp = (min: number, max: number) => (v: number) => Math.min(Math.max(v, min), max)
 
 /**
- * The snippet I use to generate the typings for the voices.
+ * The snippet I use to dump the voices for `scripts/generate-voices.js`.
  *
- * Just copy and run `copy(getVoicesTypeString())` on the browser console.
+ * Just copy and run `copy(getVoicesTypeString())` on the browser console, and save it as a JSON
+ * file in `voices/`.
  */
 export const getVoicesTypeString = () => {
-  const browser = (agent => {
-    if (agent.indexOf('edge') > -1) return 'MSEdge'
-    if (agent.indexOf('edg/') > -1) return 'ChromiumEdge'
+  const agent = window.navigator.userAgent
+  const version = (pattern: RegExp) => pattern.exec(agent)?.[1]?.replace(/_/g, '.')
+
+  const [browser, browserVersion] = (agent => {
+    if (agent.indexOf('edge') > -1) return ['MSEdge', version(/Edge\/([\d.]+)/)]
+    if (agent.indexOf('edg/') > -1) return ['ChromiumEdge', version(/Edg\/([\d.]+)/)]
     // @ts-ignore
-    if (agent.indexOf('opr') > -1 && !!window.opr) return 'Opera'
+    if (agent.indexOf('opr') > -1 && !!window.opr) return ['Opera', version(/OPR\/([\d.]+)/)]
     // @ts-ignore
-    if (agent.indexOf('chrome') > -1 && !!window.chrome) return 'Chrome'
-    if (agent.indexOf('trident') > -1) return 'IE'
-    if (agent.indexOf('firefox') > -1) return 'Firefox'
-    if (agent.indexOf('safari') > -1) return 'Safari'
-    else return 'Other'
-  })(window.navigator.userAgent.toLowerCase())
+    if (agent.indexOf('chrome') > -1 && !!window.chrome)
+      return ['Chrome', version(/Chrome\/([\d.]+)/)]
+    if (agent.indexOf('trident') > -1) return ['IE', version(/rv:([\d.]+)/)]
+    if (agent.indexOf('firefox') > -1) return ['Firefox', version(/Firefox\/([\d.]+)/)]
+    if (agent.indexOf('safari') > -1) return ['Safari', version(/Version\/([\d.]+)/)]
+    else return ['Other', undefined]
+  })(agent.toLowerCase())
+
+  const [os, osVersion] = (agent => {
+    if (/iphone|ipad|ipod/.test(agent)) return ['iOS', version(/OS ([\d_]+)/)]
+    if (agent.indexOf('android') > -1) return ['Android', version(/Android ([\d.]+)/)]
+    if (agent.indexOf('cros') > -1) return ['ChromeOS', version(/CrOS \S+ ([\d.]+)/)]
+    if (agent.indexOf('windows') > -1) return ['Windows', version(/Windows NT ([\d.]+)/)]
+    if (agent.indexOf('mac os') > -1) return ['macOS', version(/Mac OS X ([\d_.]+)/)]
+    if (agent.indexOf('linux') > -1) return ['Linux', undefined]
+    else return ['Other', undefined]
+  })(agent.toLowerCase())
 
   const voices = speechSynthesis.getVoices().map(voice =>
     ['lang', 'name', 'localService', 'voiceURI'].reduce(
       // @ts-ignore
       (acc, key) => ({ ...acc, [key]: voice[key] }),
-      { browser }
+      {}
     )
   )
 
-  return `type ${browser}Voice = ${voices.map(v => JSON.stringify(v)).join('|')}`
+  return JSON.stringify({ browser, browserVersion, os, osVersion, voices }, null, 2)
 }
 
 const _voiceKeys: {
@@ -161,1844 +632,30 @@ const _voiceKeys: {
 
 const voiceKeys = Object.keys(_voiceKeys) as (keyof SynthesisVoice)[]
 
-export type SynthesisVoice = Omit<BrowserVoice, 'browser'>
+export type SynthesisVoice = Omit<BrowserVoice, 'browser' | 'os' | 'browserVersions' | 'osVersions'>
+
+/** The shape of any voice, including the ones not listed in `BrowserVoice` */
+export type AnyVoice = {
+  browser: string
+  os: string
+  lang: string
+  name: string
+  localService: boolean
+  voiceURI: string
+}
+
+/** What `use` takes to select voices, suggests the values known from `V` but accepts any string */
+export type VoiceFilter<V extends AnyVoice> = {
+  lang?: LiteralUnion<V['lang']>
+  name?: LiteralUnion<V['name']>
+  voiceURI?: LiteralUnion<V['voiceURI']>
+  localService?: boolean
+}
 
 /**
- * The possible voices for the browser, typed here so we can get autocomplete.
- *
- * I generated this by using `getVoicesTypeString` on the browser console.
+ * The known voices matching `U`, or if there are none, a voice we know nothing about besides `U`
+ * itself, so selecting a voice missing from `BrowserVoice` doesn't leave us with `never`.
  */
-export type BrowserVoice = ChromeVoice | FirefoxVoice | SafariVoice
-
-type ChromeVoice =
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Daniel'
-      localService: true
-      voiceURI: 'Daniel'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Albert'
-      localService: true
-      voiceURI: 'Albert'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'it-IT'
-      name: 'Alice'
-      localService: true
-      voiceURI: 'Alice'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'sv-SE'
-      name: 'Alva'
-      localService: true
-      voiceURI: 'Alva'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-CA'
-      name: 'Amélie'
-      localService: true
-      voiceURI: 'Amélie'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'ms-MY'
-      name: 'Amira'
-      localService: true
-      voiceURI: 'Amira'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'de-DE'
-      name: 'Anna'
-      localService: true
-      voiceURI: 'Anna'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Bad News'
-      localService: true
-      voiceURI: 'Bad News'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Bahh'
-      localService: true
-      voiceURI: 'Bahh'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Bells'
-      localService: true
-      voiceURI: 'Bells'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Boing'
-      localService: true
-      voiceURI: 'Boing'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Bubbles'
-      localService: true
-      voiceURI: 'Bubbles'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'he-IL'
-      name: 'Carmit'
-      localService: true
-      voiceURI: 'Carmit'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Cellos'
-      localService: true
-      voiceURI: 'Cellos'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'id-ID'
-      name: 'Damayanti'
-      localService: true
-      voiceURI: 'Damayanti'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Daniel (Enhanced)'
-      localService: true
-      voiceURI: 'Daniel (Enhanced)'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'bg-BG'
-      name: 'Daria'
-      localService: true
-      voiceURI: 'Daria'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Wobble'
-      localService: true
-      voiceURI: 'Wobble'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-AR'
-      name: 'Diego (Enhanced)'
-      localService: true
-      voiceURI: 'Diego (Enhanced)'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'it-IT'
-      name: 'Eddy (Italian (Italy))'
-      localService: true
-      voiceURI: 'Eddy (Italian (Italy))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-FR'
-      name: 'Eddy (French (France))'
-      localService: true
-      voiceURI: 'Eddy (French (France))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'de-DE'
-      name: 'Eddy (German (Germany))'
-      localService: true
-      voiceURI: 'Eddy (German (Germany))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-CA'
-      name: 'Eddy (French (Canada))'
-      localService: true
-      voiceURI: 'Eddy (French (Canada))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Eddy (English (US))'
-      localService: true
-      voiceURI: 'Eddy (English (US))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-MX'
-      name: 'Eddy (Spanish (Mexico))'
-      localService: true
-      voiceURI: 'Eddy (Spanish (Mexico))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fi-FI'
-      name: 'Eddy (Finnish (Finland))'
-      localService: true
-      voiceURI: 'Eddy (Finnish (Finland))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Eddy (English (UK))'
-      localService: true
-      voiceURI: 'Eddy (English (UK))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-ES'
-      name: 'Eddy (Spanish (Spain))'
-      localService: true
-      voiceURI: 'Eddy (Spanish (Spain))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-BR'
-      name: 'Eddy (Portuguese (Brazil))'
-      localService: true
-      voiceURI: 'Eddy (Portuguese (Brazil))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'nl-BE'
-      name: 'Ellen'
-      localService: true
-      voiceURI: 'Ellen'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-FR'
-      name: 'Flo (French (France))'
-      localService: true
-      voiceURI: 'Flo (French (France))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Flo (English (US))'
-      localService: true
-      voiceURI: 'Flo (English (US))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-MX'
-      name: 'Flo (Spanish (Mexico))'
-      localService: true
-      voiceURI: 'Flo (Spanish (Mexico))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Flo (English (UK))'
-      localService: true
-      voiceURI: 'Flo (English (UK))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-ES'
-      name: 'Flo (Spanish (Spain))'
-      localService: true
-      voiceURI: 'Flo (Spanish (Spain))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'it-IT'
-      name: 'Flo (Italian (Italy))'
-      localService: true
-      voiceURI: 'Flo (Italian (Italy))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-CA'
-      name: 'Flo (French (Canada))'
-      localService: true
-      voiceURI: 'Flo (French (Canada))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-BR'
-      name: 'Flo (Portuguese (Brazil))'
-      localService: true
-      voiceURI: 'Flo (Portuguese (Brazil))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'de-DE'
-      name: 'Flo (German (Germany))'
-      localService: true
-      voiceURI: 'Flo (German (Germany))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fi-FI'
-      name: 'Flo (Finnish (Finland))'
-      localService: true
-      voiceURI: 'Flo (Finnish (Finland))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Fred'
-      localService: true
-      voiceURI: 'Fred'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Good News'
-      localService: true
-      voiceURI: 'Good News'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-FR'
-      name: 'Grandma (French (France))'
-      localService: true
-      voiceURI: 'Grandma (French (France))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-CA'
-      name: 'Grandma (French (Canada))'
-      localService: true
-      voiceURI: 'Grandma (French (Canada))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fi-FI'
-      name: 'Grandma (Finnish (Finland))'
-      localService: true
-      voiceURI: 'Grandma (Finnish (Finland))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'de-DE'
-      name: 'Grandma (German (Germany))'
-      localService: true
-      voiceURI: 'Grandma (German (Germany))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-BR'
-      name: 'Grandma (Portuguese (Brazil))'
-      localService: true
-      voiceURI: 'Grandma (Portuguese (Brazil))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Grandma (English (US))'
-      localService: true
-      voiceURI: 'Grandma (English (US))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-ES'
-      name: 'Grandma (Spanish (Spain))'
-      localService: true
-      voiceURI: 'Grandma (Spanish (Spain))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Grandma (English (UK))'
-      localService: true
-      voiceURI: 'Grandma (English (UK))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'it-IT'
-      name: 'Grandma (Italian (Italy))'
-      localService: true
-      voiceURI: 'Grandma (Italian (Italy))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-MX'
-      name: 'Grandma (Spanish (Mexico))'
-      localService: true
-      voiceURI: 'Grandma (Spanish (Mexico))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-FR'
-      name: 'Grandpa (French (France))'
-      localService: true
-      voiceURI: 'Grandpa (French (France))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-CA'
-      name: 'Grandpa (French (Canada))'
-      localService: true
-      voiceURI: 'Grandpa (French (Canada))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fi-FI'
-      name: 'Grandpa (Finnish (Finland))'
-      localService: true
-      voiceURI: 'Grandpa (Finnish (Finland))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'de-DE'
-      name: 'Grandpa (German (Germany))'
-      localService: true
-      voiceURI: 'Grandpa (German (Germany))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-BR'
-      name: 'Grandpa (Portuguese (Brazil))'
-      localService: true
-      voiceURI: 'Grandpa (Portuguese (Brazil))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Grandpa (English (US))'
-      localService: true
-      voiceURI: 'Grandpa (English (US))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-ES'
-      name: 'Grandpa (Spanish (Spain))'
-      localService: true
-      voiceURI: 'Grandpa (Spanish (Spain))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Grandpa (English (UK))'
-      localService: true
-      voiceURI: 'Grandpa (English (UK))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'it-IT'
-      name: 'Grandpa (Italian (Italy))'
-      localService: true
-      voiceURI: 'Grandpa (Italian (Italy))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-MX'
-      name: 'Grandpa (Spanish (Mexico))'
-      localService: true
-      voiceURI: 'Grandpa (Spanish (Mexico))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Jester'
-      localService: true
-      voiceURI: 'Jester'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'ro-RO'
-      name: 'Ioana'
-      localService: true
-      voiceURI: 'Ioana'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-FR'
-      name: 'Jacques'
-      localService: true
-      voiceURI: 'Jacques'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-PT'
-      name: 'Joana'
-      localService: true
-      voiceURI: 'Joana'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Junior'
-      localService: true
-      voiceURI: 'Junior'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'th-TH'
-      name: 'Kanya'
-      localService: true
-      voiceURI: 'Kanya'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-AU'
-      name: 'Karen'
-      localService: true
-      voiceURI: 'Karen'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Kathy'
-      localService: true
-      voiceURI: 'Kathy'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'ja-JP'
-      name: 'Kyoko'
-      localService: true
-      voiceURI: 'Kyoko'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'hr-HR'
-      name: 'Lana'
-      localService: true
-      voiceURI: 'Lana'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'sk-SK'
-      name: 'Laura'
-      localService: true
-      voiceURI: 'Laura'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'hi-IN'
-      name: 'Lekha'
-      localService: true
-      voiceURI: 'Lekha'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'uk-UA'
-      name: 'Lesya'
-      localService: true
-      voiceURI: 'Lesya'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'vi-VN'
-      name: 'Linh'
-      localService: true
-      voiceURI: 'Linh'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-BR'
-      name: 'Luciana'
-      localService: true
-      voiceURI: 'Luciana'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-BR'
-      name: 'Luciana (Enhanced)'
-      localService: true
-      voiceURI: 'Luciana (Enhanced)'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'ar-001'
-      name: 'Majed'
-      localService: true
-      voiceURI: 'Majed'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'hu-HU'
-      name: 'Tünde'
-      localService: true
-      voiceURI: 'Tünde'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'zh-TW'
-      name: 'Meijia'
-      localService: true
-      voiceURI: 'Meijia'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'el-GR'
-      name: 'Melina'
-      localService: true
-      voiceURI: 'Melina'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'ru-RU'
-      name: 'Milena'
-      localService: true
-      voiceURI: 'Milena'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-IE'
-      name: 'Moira'
-      localService: true
-      voiceURI: 'Moira'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-ES'
-      name: 'Mónica'
-      localService: true
-      voiceURI: 'Mónica'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'ca-ES'
-      name: 'Montse'
-      localService: true
-      voiceURI: 'Montse'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'nb-NO'
-      name: 'Nora'
-      localService: true
-      voiceURI: 'Nora'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Organ'
-      localService: true
-      voiceURI: 'Organ'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-MX'
-      name: 'Paulina'
-      localService: true
-      voiceURI: 'Paulina'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Superstar'
-      localService: true
-      voiceURI: 'Superstar'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Ralph'
-      localService: true
-      voiceURI: 'Ralph'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-BR'
-      name: 'Reed (Portuguese (Brazil))'
-      localService: true
-      voiceURI: 'Reed (Portuguese (Brazil))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'it-IT'
-      name: 'Reed (Italian (Italy))'
-      localService: true
-      voiceURI: 'Reed (Italian (Italy))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'de-DE'
-      name: 'Reed (German (Germany))'
-      localService: true
-      voiceURI: 'Reed (German (Germany))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Reed (English (US))'
-      localService: true
-      voiceURI: 'Reed (English (US))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-CA'
-      name: 'Reed (French (Canada))'
-      localService: true
-      voiceURI: 'Reed (French (Canada))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-MX'
-      name: 'Reed (Spanish (Mexico))'
-      localService: true
-      voiceURI: 'Reed (Spanish (Mexico))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fi-FI'
-      name: 'Reed (Finnish (Finland))'
-      localService: true
-      voiceURI: 'Reed (Finnish (Finland))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Reed (English (UK))'
-      localService: true
-      voiceURI: 'Reed (English (UK))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-ES'
-      name: 'Reed (Spanish (Spain))'
-      localService: true
-      voiceURI: 'Reed (Spanish (Spain))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-IN'
-      name: 'Rishi'
-      localService: true
-      voiceURI: 'Rishi'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-MX'
-      name: 'Rocko (Spanish (Mexico))'
-      localService: true
-      voiceURI: 'Rocko (Spanish (Mexico))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-FR'
-      name: 'Rocko (French (France))'
-      localService: true
-      voiceURI: 'Rocko (French (France))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-CA'
-      name: 'Rocko (French (Canada))'
-      localService: true
-      voiceURI: 'Rocko (French (Canada))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Rocko (English (US))'
-      localService: true
-      voiceURI: 'Rocko (English (US))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Rocko (English (UK))'
-      localService: true
-      voiceURI: 'Rocko (English (UK))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-BR'
-      name: 'Rocko (Portuguese (Brazil))'
-      localService: true
-      voiceURI: 'Rocko (Portuguese (Brazil))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-ES'
-      name: 'Rocko (Spanish (Spain))'
-      localService: true
-      voiceURI: 'Rocko (Spanish (Spain))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'de-DE'
-      name: 'Rocko (German (Germany))'
-      localService: true
-      voiceURI: 'Rocko (German (Germany))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'it-IT'
-      name: 'Rocko (Italian (Italy))'
-      localService: true
-      voiceURI: 'Rocko (Italian (Italy))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fi-FI'
-      name: 'Rocko (Finnish (Finland))'
-      localService: true
-      voiceURI: 'Rocko (Finnish (Finland))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Samantha'
-      localService: true
-      voiceURI: 'Samantha'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'de-DE'
-      name: 'Sandy (German (Germany))'
-      localService: true
-      voiceURI: 'Sandy (German (Germany))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-FR'
-      name: 'Sandy (French (France))'
-      localService: true
-      voiceURI: 'Sandy (French (France))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'it-IT'
-      name: 'Sandy (Italian (Italy))'
-      localService: true
-      voiceURI: 'Sandy (Italian (Italy))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fi-FI'
-      name: 'Sandy (Finnish (Finland))'
-      localService: true
-      voiceURI: 'Sandy (Finnish (Finland))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-MX'
-      name: 'Sandy (Spanish (Mexico))'
-      localService: true
-      voiceURI: 'Sandy (Spanish (Mexico))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-ES'
-      name: 'Sandy (Spanish (Spain))'
-      localService: true
-      voiceURI: 'Sandy (Spanish (Spain))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-CA'
-      name: 'Sandy (French (Canada))'
-      localService: true
-      voiceURI: 'Sandy (French (Canada))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Sandy (English (US))'
-      localService: true
-      voiceURI: 'Sandy (English (US))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Sandy (English (UK))'
-      localService: true
-      voiceURI: 'Sandy (English (UK))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-BR'
-      name: 'Sandy (Portuguese (Brazil))'
-      localService: true
-      voiceURI: 'Sandy (Portuguese (Brazil))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'da-DK'
-      name: 'Sara'
-      localService: true
-      voiceURI: 'Sara'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fi-FI'
-      name: 'Satu'
-      localService: true
-      voiceURI: 'Satu'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-CA'
-      name: 'Shelley (French (Canada))'
-      localService: true
-      voiceURI: 'Shelley (French (Canada))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fi-FI'
-      name: 'Shelley (Finnish (Finland))'
-      localService: true
-      voiceURI: 'Shelley (Finnish (Finland))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'de-DE'
-      name: 'Shelley (German (Germany))'
-      localService: true
-      voiceURI: 'Shelley (German (Germany))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-BR'
-      name: 'Shelley (Portuguese (Brazil))'
-      localService: true
-      voiceURI: 'Shelley (Portuguese (Brazil))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Shelley (English (US))'
-      localService: true
-      voiceURI: 'Shelley (English (US))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-ES'
-      name: 'Shelley (Spanish (Spain))'
-      localService: true
-      voiceURI: 'Shelley (Spanish (Spain))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Shelley (English (UK))'
-      localService: true
-      voiceURI: 'Shelley (English (UK))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'it-IT'
-      name: 'Shelley (Italian (Italy))'
-      localService: true
-      voiceURI: 'Shelley (Italian (Italy))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-MX'
-      name: 'Shelley (Spanish (Mexico))'
-      localService: true
-      voiceURI: 'Shelley (Spanish (Mexico))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-FR'
-      name: 'Shelley (French (France))'
-      localService: true
-      voiceURI: 'Shelley (French (France))'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'zh-HK'
-      name: 'Sinji'
-      localService: true
-      voiceURI: 'Sinji'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-ZA'
-      name: 'Tessa'
-      localService: true
-      voiceURI: 'Tessa'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-FR'
-      name: 'Thomas'
-      localService: true
-      voiceURI: 'Thomas'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'zh-CN'
-      name: 'Tingting'
-      localService: true
-      voiceURI: 'Tingting'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Trinoids'
-      localService: true
-      voiceURI: 'Trinoids'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Whisper'
-      localService: true
-      voiceURI: 'Whisper'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'nl-NL'
-      name: 'Xander'
-      localService: true
-      voiceURI: 'Xander'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'tr-TR'
-      name: 'Yelda'
-      localService: true
-      voiceURI: 'Yelda'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'ko-KR'
-      name: 'Yuna'
-      localService: true
-      voiceURI: 'Yuna'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Zarvox'
-      localService: true
-      voiceURI: 'Zarvox'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pl-PL'
-      name: 'Zosia'
-      localService: true
-      voiceURI: 'Zosia'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'cs-CZ'
-      name: 'Zuzana'
-      localService: true
-      voiceURI: 'Zuzana'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'de-DE'
-      name: 'Google Deutsch'
-      localService: false
-      voiceURI: 'Google Deutsch'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-US'
-      name: 'Google US English'
-      localService: false
-      voiceURI: 'Google US English'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Google UK English Female'
-      localService: false
-      voiceURI: 'Google UK English Female'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'en-GB'
-      name: 'Google UK English Male'
-      localService: false
-      voiceURI: 'Google UK English Male'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-ES'
-      name: 'Google español'
-      localService: false
-      voiceURI: 'Google español'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'es-US'
-      name: 'Google español de Estados Unidos'
-      localService: false
-      voiceURI: 'Google español de Estados Unidos'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'fr-FR'
-      name: 'Google français'
-      localService: false
-      voiceURI: 'Google français'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'hi-IN'
-      name: 'Google हिन्दी'
-      localService: false
-      voiceURI: 'Google हिन्दी'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'id-ID'
-      name: 'Google Bahasa Indonesia'
-      localService: false
-      voiceURI: 'Google Bahasa Indonesia'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'it-IT'
-      name: 'Google italiano'
-      localService: false
-      voiceURI: 'Google italiano'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'ja-JP'
-      name: 'Google 日本語'
-      localService: false
-      voiceURI: 'Google 日本語'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'ko-KR'
-      name: 'Google 한국의'
-      localService: false
-      voiceURI: 'Google 한국의'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'nl-NL'
-      name: 'Google Nederlands'
-      localService: false
-      voiceURI: 'Google Nederlands'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pl-PL'
-      name: 'Google polski'
-      localService: false
-      voiceURI: 'Google polski'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'pt-BR'
-      name: 'Google português do Brasil'
-      localService: false
-      voiceURI: 'Google português do Brasil'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'ru-RU'
-      name: 'Google русский'
-      localService: false
-      voiceURI: 'Google русский'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'zh-CN'
-      name: 'Google 普通话（中国大陆）'
-      localService: false
-      voiceURI: 'Google 普通话（中国大陆）'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'zh-HK'
-      name: 'Google 粤語（香港）'
-      localService: false
-      voiceURI: 'Google 粤語（香港）'
-    }
-  | {
-      browser: 'Chrome'
-      lang: 'zh-TW'
-      name: 'Google 國語（臺灣）'
-      localService: false
-      voiceURI: 'Google 國語（臺灣）'
-    }
-
-type FirefoxVoice =
-  | {
-      browser: 'Firefox'
-      lang: 'en-US'
-      name: 'Alex'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.Alex'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'it-IT'
-      name: 'Alice'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.alice'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'sv-SE'
-      name: 'Alva'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.alva'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'fr-CA'
-      name: 'Amelie'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.amelie'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'de-DE'
-      name: 'Anna'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.anna'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'he-IL'
-      name: 'Carmit'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.carmit'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'id-ID'
-      name: 'Damayanti'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.damayanti'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'en-GB'
-      name: 'Daniel'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.daniel'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'es-AR'
-      name: 'Diego'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.diego'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'nl-BE'
-      name: 'Ellen'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.ellen'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'en-scotland'
-      name: 'Fiona'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.fiona'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'en-US'
-      name: 'Fred'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.Fred'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'ro-RO'
-      name: 'Ioana'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.ioana'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'pt-PT'
-      name: 'Joana'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.joana'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'es-ES'
-      name: 'Jorge'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.jorge'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'es-MX'
-      name: 'Juan'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.juan'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'th-TH'
-      name: 'Kanya'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.kanya'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'en-AU'
-      name: 'Karen'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.karen'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'ja-JP'
-      name: 'Kyoko'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.kyoko'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'sk-SK'
-      name: 'Laura'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.laura'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'hi-IN'
-      name: 'Lekha'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.lekha'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'it-IT'
-      name: 'Luca'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.luca'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'pt-BR'
-      name: 'Luciana'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.luciana'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'ar-SA'
-      name: 'Maged'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.maged'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'hu-HU'
-      name: 'Mariska'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.mariska'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'zh-TW'
-      name: 'Mei-Jia'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.meijia'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'el-GR'
-      name: 'Melina'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.melina'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'ru-RU'
-      name: 'Milena'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.milena'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'en-IE'
-      name: 'Moira'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.moira'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'es-ES'
-      name: 'Monica'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.monica'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'nb-NO'
-      name: 'Nora'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.nora'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'es-MX'
-      name: 'Paulina'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.paulina'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'en-IN'
-      name: 'Rishi'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.rishi'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'en-US'
-      name: 'Samantha'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.samantha'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'da-DK'
-      name: 'Sara'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.sara'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'fi-FI'
-      name: 'Satu'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.satu'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'zh-HK'
-      name: 'Sin-ji'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.sinji'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'en-ZA'
-      name: 'Tessa'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.tessa'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'fr-FR'
-      name: 'Thomas'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.thomas'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'zh-CN'
-      name: 'Ting-Ting'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.tingting'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'en-IN'
-      name: 'Veena'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.veena'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'en-US'
-      name: 'Victoria'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.Victoria'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'nl-NL'
-      name: 'Xander'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.xander'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'tr-TR'
-      name: 'Yelda'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.yelda'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'ko-KR'
-      name: 'Yuna'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.yuna'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'ru-RU'
-      name: 'Yuri'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.yuri'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'pl-PL'
-      name: 'Zosia'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.zosia'
-    }
-  | {
-      browser: 'Firefox'
-      lang: 'cs-CZ'
-      name: 'Zuzana'
-      localService: true
-      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.zuzana'
-    }
-
-type SafariVoice =
-  | {
-      browser: 'Safari'
-      lang: 'en-US'
-      name: 'Alex'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.Alex'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'it-IT'
-      name: 'Alice'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.alice'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'sv-SE'
-      name: 'Alva'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.alva'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'fr-CA'
-      name: 'Amelie'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.amelie'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'de-DE'
-      name: 'Anna'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.anna'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'he-IL'
-      name: 'Carmit'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.carmit'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'id-ID'
-      name: 'Damayanti'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.damayanti'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'en-GB'
-      name: 'Daniel'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.daniel'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'es-AR'
-      name: 'Diego'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.diego'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'nl-BE'
-      name: 'Ellen'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.ellen'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'en-SCOTLAND'
-      name: 'Fiona'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.fiona'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'en-US'
-      name: 'Fred'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.Fred'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'ro-RO'
-      name: 'Ioana'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.ioana'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'pt-PT'
-      name: 'Joana'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.joana'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'es-ES'
-      name: 'Jorge'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.jorge'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'es-MX'
-      name: 'Juan'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.juan'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'th-TH'
-      name: 'Kanya'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.kanya'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'en-AU'
-      name: 'Karen'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.karen'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'ja-JP'
-      name: 'Kyoko'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.kyoko'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'sk-SK'
-      name: 'Laura'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.laura'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'hi-IN'
-      name: 'Lekha'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.lekha'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'it-IT'
-      name: 'Luca'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.luca'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'pt-BR'
-      name: 'Luciana'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.luciana'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'ar-SA'
-      name: 'Maged'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.maged'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'hu-HU'
-      name: 'Mariska'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.mariska'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'zh-TW'
-      name: 'Mei-Jia'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.meijia'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'el-GR'
-      name: 'Melina'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.melina'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'ru-RU'
-      name: 'Milena'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.milena'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'en-IE'
-      name: 'Moira'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.moira'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'es-ES'
-      name: 'Monica'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.monica'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'nb-NO'
-      name: 'Nora'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.nora'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'es-MX'
-      name: 'Paulina'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.paulina'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'en-IN'
-      name: 'Rishi'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.rishi'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'en-US'
-      name: 'Samantha'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.samantha'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'da-DK'
-      name: 'Sara'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.sara'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'fi-FI'
-      name: 'Satu'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.satu'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'zh-HK'
-      name: 'Sin-ji'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.sinji'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'en-ZA'
-      name: 'Tessa'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.tessa'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'fr-FR'
-      name: 'Thomas'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.thomas'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'zh-CN'
-      name: 'Ting-Ting'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.tingting'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'en-IN'
-      name: 'Veena'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.veena'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'en-US'
-      name: 'Victoria'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.Victoria'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'nl-NL'
-      name: 'Xander'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.xander'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'tr-TR'
-      name: 'Yelda'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.yelda'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'ko-KR'
-      name: 'Yuna'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.yuna'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'ru-RU'
-      name: 'Yuri'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.yuri'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'pl-PL'
-      name: 'Zosia'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.zosia'
-    }
-  | {
-      browser: 'Safari'
-      lang: 'cs-CZ'
-      name: 'Zuzana'
-      localService: true
-      voiceURI: 'com.apple.speech.synthesis.voice.zuzana'
-    }
+type Narrow<V extends AnyVoice, U> = Extract<V, U> extends never
+  ? AnyVoice & Pick<U, keyof U & keyof AnyVoice>
+  : Extract<V, U>
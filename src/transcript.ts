@@ -0,0 +1,106 @@
+import type { RecognitionEvent } from './recognition'
+import type { SessionEvent } from './session'
+
+/** A result of the recognizer, `final` once it won't change anymore */
+export type TranscriptSegment = { transcript: string; confidence: number; final: boolean }
+
+/** A change to `Transcript.text`, offsets are in the text before the change */
+export type TranscriptEdit =
+  | { tag: 'insert'; at: number; text: string }
+  | { tag: 'replace'; from: number; to: number; text: string }
+
+/**
+ * Live text of a recognition, from the events of `subscribe` or `session`, split in the `committed`
+ * text, final results only, and the volatile `tail` the recognizer is still revising. Each event
+ * applied returns the edit it made to the text, to patch an editor without redrawing it:
+ *
+ * ```ts
+ * const notes = transcript()
+ * recognition
+ *   .use({ continuous: true, interimResults: true })
+ *   .session()
+ *   .subscribe({ next: e => notes.apply(e).forEach(edit => editor.apply(edit)) })
+ * ```
+ */
+export class Transcript {
+  private list: TranscriptSegment[] = []
+  /** Where the results of the current session start in `list` */
+  private base = 0
+
+  /** Every result so far, the final ones first */
+  get segments() {
+    return [...this.list]
+  }
+
+  get committed() {
+    return join(this.list.slice(0, this.volatileStart()))
+  }
+
+  get tail() {
+    return join(this.list.slice(this.volatileStart()))
+  }
+
+  /** The committed text then the tail, joined by a space */
+  get text() {
+    return join(this.list)
+  }
+
+  /**
+   * Takes the event in, returning the edits it made to `text`, at most one. A result replaces the
+   * ones from its `index` on, and those not final when a session starts or ends are dropped.
+   */
+  apply = (e: RecognitionEvent | SessionEvent): TranscriptEdit[] => {
+    const before = this.text
+
+    if (e.tag === 'start' || e.tag === 'end') {
+      this.list = this.list.filter(segment => segment.final)
+      this.base = this.list.length
+    } else if (e.tag === 'interim' || e.tag === 'final') {
+      const [best = { transcript: '', confidence: 0 }] = e.alternatives
+      this.list = [
+        ...this.list.slice(0, e.index === undefined ? this.volatileStart() : this.base + e.index),
+        {
+          transcript: best.transcript.trim(),
+          confidence: best.confidence,
+          final: e.tag === 'final',
+        },
+      ]
+    }
+
+    return diff(before, this.text)
+  }
+
+  private volatileStart = () => {
+    const index = this.list.findIndex(segment => !segment.final)
+    return index === -1 ? this.list.length : index
+  }
+}
+
+export const transcript = () => new Transcript()
+
+const join = (segments: TranscriptSegment[]) =>
+  segments
+    .map(segment => segment.transcript)
+    .filter(Boolean)
+    .join(' ')
+
+/** The single edit from `before` to `after`, leaving out what they start and end with in common */
+const diff = (before: string, after: string): TranscriptEdit[] => {
+  if (before === after) return []
+
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) start++
+  let end = 0
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  )
+    end++
+
+  const to = before.length - end
+  const text = after.slice(start, after.length - end)
+  return [
+    start === to ? { tag: 'insert', at: start, text } : { tag: 'replace', from: start, to, text },
+  ]
+}
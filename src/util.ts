@@ -15,3 +15,9 @@ export interface Observer<T> {
 export interface Unsubscribable {
   unsubscribe(): void
 }
+
+/**
+ * Accepts any string while keeping the suggestions for `T` on intellisense, a plain `T | string`
+ * would collapse to `string`.
+ */
+export type LiteralUnion<T extends string> = T | (string & Record<never, never>)
@@ -0,0 +1,5241 @@
+// Generated by scripts/generate-voices.js from the dumps in voices/, do not edit by hand.
+
+/**
+ * The possible voices for the browser, typed here so we can get autocomplete. Spelled out rather
+ * than taken from `voiceCatalog`, so declarations refer to it by name instead of inlining it.
+ */
+export type BrowserVoice =
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'ar-001'
+      name: 'Majed'
+      localService: true
+      voiceURI: 'Majed'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'bg-BG'
+      name: 'Daria'
+      localService: true
+      voiceURI: 'Daria'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'ca-ES'
+      name: 'Montse'
+      localService: true
+      voiceURI: 'Montse'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'cs-CZ'
+      name: 'Zuzana'
+      localService: true
+      voiceURI: 'Zuzana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'da-DK'
+      name: 'Sara'
+      localService: true
+      voiceURI: 'Sara'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Anna'
+      localService: true
+      voiceURI: 'Anna'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Eddy (German (Germany))'
+      localService: true
+      voiceURI: 'Eddy (German (Germany))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Flo (German (Germany))'
+      localService: true
+      voiceURI: 'Flo (German (Germany))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Google Deutsch'
+      localService: false
+      voiceURI: 'Google Deutsch'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Grandma (German (Germany))'
+      localService: true
+      voiceURI: 'Grandma (German (Germany))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Grandpa (German (Germany))'
+      localService: true
+      voiceURI: 'Grandpa (German (Germany))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Reed (German (Germany))'
+      localService: true
+      voiceURI: 'Reed (German (Germany))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Rocko (German (Germany))'
+      localService: true
+      voiceURI: 'Rocko (German (Germany))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Sandy (German (Germany))'
+      localService: true
+      voiceURI: 'Sandy (German (Germany))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Shelley (German (Germany))'
+      localService: true
+      voiceURI: 'Shelley (German (Germany))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'el-GR'
+      name: 'Melina'
+      localService: true
+      voiceURI: 'Melina'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-AU'
+      name: 'Karen'
+      localService: true
+      voiceURI: 'Karen'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Daniel'
+      localService: true
+      voiceURI: 'Daniel'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Daniel (Enhanced)'
+      localService: true
+      voiceURI: 'Daniel (Enhanced)'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Eddy (English (UK))'
+      localService: true
+      voiceURI: 'Eddy (English (UK))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Flo (English (UK))'
+      localService: true
+      voiceURI: 'Flo (English (UK))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Google UK English Female'
+      localService: false
+      voiceURI: 'Google UK English Female'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Google UK English Male'
+      localService: false
+      voiceURI: 'Google UK English Male'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Grandma (English (UK))'
+      localService: true
+      voiceURI: 'Grandma (English (UK))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Grandpa (English (UK))'
+      localService: true
+      voiceURI: 'Grandpa (English (UK))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Reed (English (UK))'
+      localService: true
+      voiceURI: 'Reed (English (UK))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Rocko (English (UK))'
+      localService: true
+      voiceURI: 'Rocko (English (UK))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Sandy (English (UK))'
+      localService: true
+      voiceURI: 'Sandy (English (UK))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Shelley (English (UK))'
+      localService: true
+      voiceURI: 'Shelley (English (UK))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-IE'
+      name: 'Moira'
+      localService: true
+      voiceURI: 'Moira'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-IN'
+      name: 'Rishi'
+      localService: true
+      voiceURI: 'Rishi'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Albert'
+      localService: true
+      voiceURI: 'Albert'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Bad News'
+      localService: true
+      voiceURI: 'Bad News'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Bahh'
+      localService: true
+      voiceURI: 'Bahh'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Bells'
+      localService: true
+      voiceURI: 'Bells'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Boing'
+      localService: true
+      voiceURI: 'Boing'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Bubbles'
+      localService: true
+      voiceURI: 'Bubbles'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Cellos'
+      localService: true
+      voiceURI: 'Cellos'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Eddy (English (US))'
+      localService: true
+      voiceURI: 'Eddy (English (US))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Flo (English (US))'
+      localService: true
+      voiceURI: 'Flo (English (US))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Fred'
+      localService: true
+      voiceURI: 'Fred'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Good News'
+      localService: true
+      voiceURI: 'Good News'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Google US English'
+      localService: false
+      voiceURI: 'Google US English'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Grandma (English (US))'
+      localService: true
+      voiceURI: 'Grandma (English (US))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Grandpa (English (US))'
+      localService: true
+      voiceURI: 'Grandpa (English (US))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Jester'
+      localService: true
+      voiceURI: 'Jester'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Junior'
+      localService: true
+      voiceURI: 'Junior'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Kathy'
+      localService: true
+      voiceURI: 'Kathy'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Organ'
+      localService: true
+      voiceURI: 'Organ'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Ralph'
+      localService: true
+      voiceURI: 'Ralph'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Reed (English (US))'
+      localService: true
+      voiceURI: 'Reed (English (US))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Rocko (English (US))'
+      localService: true
+      voiceURI: 'Rocko (English (US))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Samantha'
+      localService: true
+      voiceURI: 'Samantha'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Sandy (English (US))'
+      localService: true
+      voiceURI: 'Sandy (English (US))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Shelley (English (US))'
+      localService: true
+      voiceURI: 'Shelley (English (US))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Superstar'
+      localService: true
+      voiceURI: 'Superstar'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Trinoids'
+      localService: true
+      voiceURI: 'Trinoids'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Whisper'
+      localService: true
+      voiceURI: 'Whisper'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Wobble'
+      localService: true
+      voiceURI: 'Wobble'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Zarvox'
+      localService: true
+      voiceURI: 'Zarvox'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'en-ZA'
+      name: 'Tessa'
+      localService: true
+      voiceURI: 'Tessa'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-AR'
+      name: 'Diego (Enhanced)'
+      localService: true
+      voiceURI: 'Diego (Enhanced)'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Eddy (Spanish (Spain))'
+      localService: true
+      voiceURI: 'Eddy (Spanish (Spain))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Flo (Spanish (Spain))'
+      localService: true
+      voiceURI: 'Flo (Spanish (Spain))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Google español'
+      localService: false
+      voiceURI: 'Google español'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Grandma (Spanish (Spain))'
+      localService: true
+      voiceURI: 'Grandma (Spanish (Spain))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Grandpa (Spanish (Spain))'
+      localService: true
+      voiceURI: 'Grandpa (Spanish (Spain))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Mónica'
+      localService: true
+      voiceURI: 'Mónica'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Reed (Spanish (Spain))'
+      localService: true
+      voiceURI: 'Reed (Spanish (Spain))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Rocko (Spanish (Spain))'
+      localService: true
+      voiceURI: 'Rocko (Spanish (Spain))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Sandy (Spanish (Spain))'
+      localService: true
+      voiceURI: 'Sandy (Spanish (Spain))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Shelley (Spanish (Spain))'
+      localService: true
+      voiceURI: 'Shelley (Spanish (Spain))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Eddy (Spanish (Mexico))'
+      localService: true
+      voiceURI: 'Eddy (Spanish (Mexico))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Flo (Spanish (Mexico))'
+      localService: true
+      voiceURI: 'Flo (Spanish (Mexico))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Grandma (Spanish (Mexico))'
+      localService: true
+      voiceURI: 'Grandma (Spanish (Mexico))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Grandpa (Spanish (Mexico))'
+      localService: true
+      voiceURI: 'Grandpa (Spanish (Mexico))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Paulina'
+      localService: true
+      voiceURI: 'Paulina'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Reed (Spanish (Mexico))'
+      localService: true
+      voiceURI: 'Reed (Spanish (Mexico))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Rocko (Spanish (Mexico))'
+      localService: true
+      voiceURI: 'Rocko (Spanish (Mexico))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Sandy (Spanish (Mexico))'
+      localService: true
+      voiceURI: 'Sandy (Spanish (Mexico))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Shelley (Spanish (Mexico))'
+      localService: true
+      voiceURI: 'Shelley (Spanish (Mexico))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'es-US'
+      name: 'Google español de Estados Unidos'
+      localService: false
+      voiceURI: 'Google español de Estados Unidos'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fi-FI'
+      name: 'Eddy (Finnish (Finland))'
+      localService: true
+      voiceURI: 'Eddy (Finnish (Finland))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fi-FI'
+      name: 'Flo (Finnish (Finland))'
+      localService: true
+      voiceURI: 'Flo (Finnish (Finland))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fi-FI'
+      name: 'Grandma (Finnish (Finland))'
+      localService: true
+      voiceURI: 'Grandma (Finnish (Finland))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fi-FI'
+      name: 'Grandpa (Finnish (Finland))'
+      localService: true
+      voiceURI: 'Grandpa (Finnish (Finland))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fi-FI'
+      name: 'Reed (Finnish (Finland))'
+      localService: true
+      voiceURI: 'Reed (Finnish (Finland))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fi-FI'
+      name: 'Rocko (Finnish (Finland))'
+      localService: true
+      voiceURI: 'Rocko (Finnish (Finland))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fi-FI'
+      name: 'Sandy (Finnish (Finland))'
+      localService: true
+      voiceURI: 'Sandy (Finnish (Finland))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fi-FI'
+      name: 'Satu'
+      localService: true
+      voiceURI: 'Satu'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fi-FI'
+      name: 'Shelley (Finnish (Finland))'
+      localService: true
+      voiceURI: 'Shelley (Finnish (Finland))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-CA'
+      name: 'Amélie'
+      localService: true
+      voiceURI: 'Amélie'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-CA'
+      name: 'Eddy (French (Canada))'
+      localService: true
+      voiceURI: 'Eddy (French (Canada))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-CA'
+      name: 'Flo (French (Canada))'
+      localService: true
+      voiceURI: 'Flo (French (Canada))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-CA'
+      name: 'Grandma (French (Canada))'
+      localService: true
+      voiceURI: 'Grandma (French (Canada))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-CA'
+      name: 'Grandpa (French (Canada))'
+      localService: true
+      voiceURI: 'Grandpa (French (Canada))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-CA'
+      name: 'Reed (French (Canada))'
+      localService: true
+      voiceURI: 'Reed (French (Canada))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-CA'
+      name: 'Rocko (French (Canada))'
+      localService: true
+      voiceURI: 'Rocko (French (Canada))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-CA'
+      name: 'Sandy (French (Canada))'
+      localService: true
+      voiceURI: 'Sandy (French (Canada))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-CA'
+      name: 'Shelley (French (Canada))'
+      localService: true
+      voiceURI: 'Shelley (French (Canada))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Eddy (French (France))'
+      localService: true
+      voiceURI: 'Eddy (French (France))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Flo (French (France))'
+      localService: true
+      voiceURI: 'Flo (French (France))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Google français'
+      localService: false
+      voiceURI: 'Google français'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Grandma (French (France))'
+      localService: true
+      voiceURI: 'Grandma (French (France))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Grandpa (French (France))'
+      localService: true
+      voiceURI: 'Grandpa (French (France))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Jacques'
+      localService: true
+      voiceURI: 'Jacques'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Rocko (French (France))'
+      localService: true
+      voiceURI: 'Rocko (French (France))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Sandy (French (France))'
+      localService: true
+      voiceURI: 'Sandy (French (France))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Shelley (French (France))'
+      localService: true
+      voiceURI: 'Shelley (French (France))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Thomas'
+      localService: true
+      voiceURI: 'Thomas'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'he-IL'
+      name: 'Carmit'
+      localService: true
+      voiceURI: 'Carmit'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'hi-IN'
+      name: 'Google हिन्दी'
+      localService: false
+      voiceURI: 'Google हिन्दी'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'hi-IN'
+      name: 'Lekha'
+      localService: true
+      voiceURI: 'Lekha'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'hr-HR'
+      name: 'Lana'
+      localService: true
+      voiceURI: 'Lana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'hu-HU'
+      name: 'Tünde'
+      localService: true
+      voiceURI: 'Tünde'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'id-ID'
+      name: 'Damayanti'
+      localService: true
+      voiceURI: 'Damayanti'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'id-ID'
+      name: 'Google Bahasa Indonesia'
+      localService: false
+      voiceURI: 'Google Bahasa Indonesia'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Alice'
+      localService: true
+      voiceURI: 'Alice'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Eddy (Italian (Italy))'
+      localService: true
+      voiceURI: 'Eddy (Italian (Italy))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Flo (Italian (Italy))'
+      localService: true
+      voiceURI: 'Flo (Italian (Italy))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Google italiano'
+      localService: false
+      voiceURI: 'Google italiano'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Grandma (Italian (Italy))'
+      localService: true
+      voiceURI: 'Grandma (Italian (Italy))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Grandpa (Italian (Italy))'
+      localService: true
+      voiceURI: 'Grandpa (Italian (Italy))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Reed (Italian (Italy))'
+      localService: true
+      voiceURI: 'Reed (Italian (Italy))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Rocko (Italian (Italy))'
+      localService: true
+      voiceURI: 'Rocko (Italian (Italy))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Sandy (Italian (Italy))'
+      localService: true
+      voiceURI: 'Sandy (Italian (Italy))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Shelley (Italian (Italy))'
+      localService: true
+      voiceURI: 'Shelley (Italian (Italy))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'ja-JP'
+      name: 'Google 日本語'
+      localService: false
+      voiceURI: 'Google 日本語'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'ja-JP'
+      name: 'Kyoko'
+      localService: true
+      voiceURI: 'Kyoko'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'ko-KR'
+      name: 'Google 한국의'
+      localService: false
+      voiceURI: 'Google 한국의'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'ko-KR'
+      name: 'Yuna'
+      localService: true
+      voiceURI: 'Yuna'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'ms-MY'
+      name: 'Amira'
+      localService: true
+      voiceURI: 'Amira'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'nb-NO'
+      name: 'Nora'
+      localService: true
+      voiceURI: 'Nora'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'nl-BE'
+      name: 'Ellen'
+      localService: true
+      voiceURI: 'Ellen'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'nl-NL'
+      name: 'Google Nederlands'
+      localService: false
+      voiceURI: 'Google Nederlands'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'nl-NL'
+      name: 'Xander'
+      localService: true
+      voiceURI: 'Xander'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pl-PL'
+      name: 'Google polski'
+      localService: false
+      voiceURI: 'Google polski'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pl-PL'
+      name: 'Zosia'
+      localService: true
+      voiceURI: 'Zosia'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Eddy (Portuguese (Brazil))'
+      localService: true
+      voiceURI: 'Eddy (Portuguese (Brazil))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Flo (Portuguese (Brazil))'
+      localService: true
+      voiceURI: 'Flo (Portuguese (Brazil))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Google português do Brasil'
+      localService: false
+      voiceURI: 'Google português do Brasil'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Grandma (Portuguese (Brazil))'
+      localService: true
+      voiceURI: 'Grandma (Portuguese (Brazil))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Grandpa (Portuguese (Brazil))'
+      localService: true
+      voiceURI: 'Grandpa (Portuguese (Brazil))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Luciana'
+      localService: true
+      voiceURI: 'Luciana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Luciana (Enhanced)'
+      localService: true
+      voiceURI: 'Luciana (Enhanced)'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Reed (Portuguese (Brazil))'
+      localService: true
+      voiceURI: 'Reed (Portuguese (Brazil))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Rocko (Portuguese (Brazil))'
+      localService: true
+      voiceURI: 'Rocko (Portuguese (Brazil))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Sandy (Portuguese (Brazil))'
+      localService: true
+      voiceURI: 'Sandy (Portuguese (Brazil))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Shelley (Portuguese (Brazil))'
+      localService: true
+      voiceURI: 'Shelley (Portuguese (Brazil))'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'pt-PT'
+      name: 'Joana'
+      localService: true
+      voiceURI: 'Joana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'ro-RO'
+      name: 'Ioana'
+      localService: true
+      voiceURI: 'Ioana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'ru-RU'
+      name: 'Google русский'
+      localService: false
+      voiceURI: 'Google русский'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'ru-RU'
+      name: 'Milena'
+      localService: true
+      voiceURI: 'Milena'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'sk-SK'
+      name: 'Laura'
+      localService: true
+      voiceURI: 'Laura'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'sv-SE'
+      name: 'Alva'
+      localService: true
+      voiceURI: 'Alva'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'th-TH'
+      name: 'Kanya'
+      localService: true
+      voiceURI: 'Kanya'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'tr-TR'
+      name: 'Yelda'
+      localService: true
+      voiceURI: 'Yelda'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'uk-UA'
+      name: 'Lesya'
+      localService: true
+      voiceURI: 'Lesya'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'vi-VN'
+      name: 'Linh'
+      localService: true
+      voiceURI: 'Linh'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'zh-CN'
+      name: 'Google 普通话（中国大陆）'
+      localService: false
+      voiceURI: 'Google 普通话（中国大陆）'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'zh-CN'
+      name: 'Tingting'
+      localService: true
+      voiceURI: 'Tingting'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'zh-HK'
+      name: 'Google 粤語（香港）'
+      localService: false
+      voiceURI: 'Google 粤語（香港）'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'zh-HK'
+      name: 'Sinji'
+      localService: true
+      voiceURI: 'Sinji'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'zh-TW'
+      name: 'Google 國語（臺灣）'
+      localService: false
+      voiceURI: 'Google 國語（臺灣）'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Chrome'
+      os: 'macOS'
+      lang: 'zh-TW'
+      name: 'Meijia'
+      localService: true
+      voiceURI: 'Meijia'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'ar-SA'
+      name: 'Maged'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.maged'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'cs-CZ'
+      name: 'Zuzana'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.zuzana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'da-DK'
+      name: 'Sara'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.sara'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Anna'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.anna'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'el-GR'
+      name: 'Melina'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.melina'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'en-AU'
+      name: 'Karen'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.karen'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Daniel'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.daniel'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'en-IE'
+      name: 'Moira'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.moira'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'en-IN'
+      name: 'Rishi'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.rishi'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'en-IN'
+      name: 'Veena'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.veena'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Alex'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.Alex'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Fred'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.Fred'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Samantha'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.samantha'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Victoria'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.Victoria'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'en-ZA'
+      name: 'Tessa'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.tessa'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'en-scotland'
+      name: 'Fiona'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.fiona'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'es-AR'
+      name: 'Diego'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.diego'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Jorge'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.jorge'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Monica'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.monica'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Juan'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.juan'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Paulina'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.paulina'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'fi-FI'
+      name: 'Satu'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.satu'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'fr-CA'
+      name: 'Amelie'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.amelie'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Thomas'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.thomas'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'he-IL'
+      name: 'Carmit'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.carmit'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'hi-IN'
+      name: 'Lekha'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.lekha'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'hu-HU'
+      name: 'Mariska'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.mariska'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'id-ID'
+      name: 'Damayanti'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.damayanti'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Alice'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.alice'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Luca'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.luca'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'ja-JP'
+      name: 'Kyoko'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.kyoko'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'ko-KR'
+      name: 'Yuna'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.yuna'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'nb-NO'
+      name: 'Nora'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.nora'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'nl-BE'
+      name: 'Ellen'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.ellen'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'nl-NL'
+      name: 'Xander'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.xander'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'pl-PL'
+      name: 'Zosia'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.zosia'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Luciana'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.luciana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'pt-PT'
+      name: 'Joana'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.joana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'ro-RO'
+      name: 'Ioana'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.ioana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'ru-RU'
+      name: 'Milena'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.milena'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'ru-RU'
+      name: 'Yuri'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.yuri'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'sk-SK'
+      name: 'Laura'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.laura'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'sv-SE'
+      name: 'Alva'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.alva'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'th-TH'
+      name: 'Kanya'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.kanya'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'tr-TR'
+      name: 'Yelda'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.yelda'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'zh-CN'
+      name: 'Ting-Ting'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.tingting'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'zh-HK'
+      name: 'Sin-ji'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.sinji'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Firefox'
+      os: 'macOS'
+      lang: 'zh-TW'
+      name: 'Mei-Jia'
+      localService: true
+      voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.meijia'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'ar-SA'
+      name: 'Maged'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.maged'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'cs-CZ'
+      name: 'Zuzana'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.zuzana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'da-DK'
+      name: 'Sara'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.sara'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'de-DE'
+      name: 'Anna'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.anna'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'el-GR'
+      name: 'Melina'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.melina'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'en-AU'
+      name: 'Karen'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.karen'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'en-GB'
+      name: 'Daniel'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.daniel'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'en-IE'
+      name: 'Moira'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.moira'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'en-IN'
+      name: 'Rishi'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.rishi'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'en-IN'
+      name: 'Veena'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.veena'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'en-SCOTLAND'
+      name: 'Fiona'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.fiona'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Alex'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.Alex'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Fred'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.Fred'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Samantha'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.samantha'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'en-US'
+      name: 'Victoria'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.Victoria'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'en-ZA'
+      name: 'Tessa'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.tessa'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'es-AR'
+      name: 'Diego'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.diego'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Jorge'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.jorge'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'es-ES'
+      name: 'Monica'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.monica'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Juan'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.juan'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'es-MX'
+      name: 'Paulina'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.paulina'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'fi-FI'
+      name: 'Satu'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.satu'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'fr-CA'
+      name: 'Amelie'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.amelie'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'fr-FR'
+      name: 'Thomas'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.thomas'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'he-IL'
+      name: 'Carmit'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.carmit'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'hi-IN'
+      name: 'Lekha'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.lekha'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'hu-HU'
+      name: 'Mariska'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.mariska'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'id-ID'
+      name: 'Damayanti'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.damayanti'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Alice'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.alice'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'it-IT'
+      name: 'Luca'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.luca'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'ja-JP'
+      name: 'Kyoko'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.kyoko'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'ko-KR'
+      name: 'Yuna'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.yuna'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'nb-NO'
+      name: 'Nora'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.nora'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'nl-BE'
+      name: 'Ellen'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.ellen'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'nl-NL'
+      name: 'Xander'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.xander'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'pl-PL'
+      name: 'Zosia'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.zosia'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'pt-BR'
+      name: 'Luciana'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.luciana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'pt-PT'
+      name: 'Joana'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.joana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'ro-RO'
+      name: 'Ioana'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.ioana'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'ru-RU'
+      name: 'Milena'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.milena'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'ru-RU'
+      name: 'Yuri'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.yuri'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'sk-SK'
+      name: 'Laura'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.laura'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'sv-SE'
+      name: 'Alva'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.alva'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'th-TH'
+      name: 'Kanya'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.kanya'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'tr-TR'
+      name: 'Yelda'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.yelda'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'zh-CN'
+      name: 'Ting-Ting'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.tingting'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'zh-HK'
+      name: 'Sin-ji'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.sinji'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+  | {
+      browser: 'Safari'
+      os: 'macOS'
+      lang: 'zh-TW'
+      name: 'Mei-Jia'
+      localService: true
+      voiceURI: 'com.apple.speech.synthesis.voice.meijia'
+      browserVersions: readonly string[]
+      osVersions: readonly string[]
+    }
+
+/**
+ * Every voice seen on the dumps, with the browser and system versions it was seen on.
+ *
+ * May not coincide with the voices on the user browser, it is only as good as the dumps.
+ */
+export const voiceCatalog: readonly BrowserVoice[] = [
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'ar-001',
+    name: 'Majed',
+    localService: true,
+    voiceURI: 'Majed',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'bg-BG',
+    name: 'Daria',
+    localService: true,
+    voiceURI: 'Daria',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'ca-ES',
+    name: 'Montse',
+    localService: true,
+    voiceURI: 'Montse',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'cs-CZ',
+    name: 'Zuzana',
+    localService: true,
+    voiceURI: 'Zuzana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'da-DK',
+    name: 'Sara',
+    localService: true,
+    voiceURI: 'Sara',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Anna',
+    localService: true,
+    voiceURI: 'Anna',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Eddy (German (Germany))',
+    localService: true,
+    voiceURI: 'Eddy (German (Germany))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Flo (German (Germany))',
+    localService: true,
+    voiceURI: 'Flo (German (Germany))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Google Deutsch',
+    localService: false,
+    voiceURI: 'Google Deutsch',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Grandma (German (Germany))',
+    localService: true,
+    voiceURI: 'Grandma (German (Germany))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Grandpa (German (Germany))',
+    localService: true,
+    voiceURI: 'Grandpa (German (Germany))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Reed (German (Germany))',
+    localService: true,
+    voiceURI: 'Reed (German (Germany))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Rocko (German (Germany))',
+    localService: true,
+    voiceURI: 'Rocko (German (Germany))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Sandy (German (Germany))',
+    localService: true,
+    voiceURI: 'Sandy (German (Germany))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Shelley (German (Germany))',
+    localService: true,
+    voiceURI: 'Shelley (German (Germany))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'el-GR',
+    name: 'Melina',
+    localService: true,
+    voiceURI: 'Melina',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-AU',
+    name: 'Karen',
+    localService: true,
+    voiceURI: 'Karen',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Daniel',
+    localService: true,
+    voiceURI: 'Daniel',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Daniel (Enhanced)',
+    localService: true,
+    voiceURI: 'Daniel (Enhanced)',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Eddy (English (UK))',
+    localService: true,
+    voiceURI: 'Eddy (English (UK))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Flo (English (UK))',
+    localService: true,
+    voiceURI: 'Flo (English (UK))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Google UK English Female',
+    localService: false,
+    voiceURI: 'Google UK English Female',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Google UK English Male',
+    localService: false,
+    voiceURI: 'Google UK English Male',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Grandma (English (UK))',
+    localService: true,
+    voiceURI: 'Grandma (English (UK))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Grandpa (English (UK))',
+    localService: true,
+    voiceURI: 'Grandpa (English (UK))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Reed (English (UK))',
+    localService: true,
+    voiceURI: 'Reed (English (UK))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Rocko (English (UK))',
+    localService: true,
+    voiceURI: 'Rocko (English (UK))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Sandy (English (UK))',
+    localService: true,
+    voiceURI: 'Sandy (English (UK))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Shelley (English (UK))',
+    localService: true,
+    voiceURI: 'Shelley (English (UK))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-IE',
+    name: 'Moira',
+    localService: true,
+    voiceURI: 'Moira',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-IN',
+    name: 'Rishi',
+    localService: true,
+    voiceURI: 'Rishi',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Albert',
+    localService: true,
+    voiceURI: 'Albert',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Bad News',
+    localService: true,
+    voiceURI: 'Bad News',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Bahh',
+    localService: true,
+    voiceURI: 'Bahh',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Bells',
+    localService: true,
+    voiceURI: 'Bells',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Boing',
+    localService: true,
+    voiceURI: 'Boing',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Bubbles',
+    localService: true,
+    voiceURI: 'Bubbles',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Cellos',
+    localService: true,
+    voiceURI: 'Cellos',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Eddy (English (US))',
+    localService: true,
+    voiceURI: 'Eddy (English (US))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Flo (English (US))',
+    localService: true,
+    voiceURI: 'Flo (English (US))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Fred',
+    localService: true,
+    voiceURI: 'Fred',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Good News',
+    localService: true,
+    voiceURI: 'Good News',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Google US English',
+    localService: false,
+    voiceURI: 'Google US English',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Grandma (English (US))',
+    localService: true,
+    voiceURI: 'Grandma (English (US))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Grandpa (English (US))',
+    localService: true,
+    voiceURI: 'Grandpa (English (US))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Jester',
+    localService: true,
+    voiceURI: 'Jester',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Junior',
+    localService: true,
+    voiceURI: 'Junior',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Kathy',
+    localService: true,
+    voiceURI: 'Kathy',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Organ',
+    localService: true,
+    voiceURI: 'Organ',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Ralph',
+    localService: true,
+    voiceURI: 'Ralph',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Reed (English (US))',
+    localService: true,
+    voiceURI: 'Reed (English (US))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Rocko (English (US))',
+    localService: true,
+    voiceURI: 'Rocko (English (US))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Samantha',
+    localService: true,
+    voiceURI: 'Samantha',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Sandy (English (US))',
+    localService: true,
+    voiceURI: 'Sandy (English (US))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Shelley (English (US))',
+    localService: true,
+    voiceURI: 'Shelley (English (US))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Superstar',
+    localService: true,
+    voiceURI: 'Superstar',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Trinoids',
+    localService: true,
+    voiceURI: 'Trinoids',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Whisper',
+    localService: true,
+    voiceURI: 'Whisper',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Wobble',
+    localService: true,
+    voiceURI: 'Wobble',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Zarvox',
+    localService: true,
+    voiceURI: 'Zarvox',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'en-ZA',
+    name: 'Tessa',
+    localService: true,
+    voiceURI: 'Tessa',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-AR',
+    name: 'Diego (Enhanced)',
+    localService: true,
+    voiceURI: 'Diego (Enhanced)',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Eddy (Spanish (Spain))',
+    localService: true,
+    voiceURI: 'Eddy (Spanish (Spain))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Flo (Spanish (Spain))',
+    localService: true,
+    voiceURI: 'Flo (Spanish (Spain))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Google español',
+    localService: false,
+    voiceURI: 'Google español',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Grandma (Spanish (Spain))',
+    localService: true,
+    voiceURI: 'Grandma (Spanish (Spain))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Grandpa (Spanish (Spain))',
+    localService: true,
+    voiceURI: 'Grandpa (Spanish (Spain))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Mónica',
+    localService: true,
+    voiceURI: 'Mónica',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Reed (Spanish (Spain))',
+    localService: true,
+    voiceURI: 'Reed (Spanish (Spain))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Rocko (Spanish (Spain))',
+    localService: true,
+    voiceURI: 'Rocko (Spanish (Spain))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Sandy (Spanish (Spain))',
+    localService: true,
+    voiceURI: 'Sandy (Spanish (Spain))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Shelley (Spanish (Spain))',
+    localService: true,
+    voiceURI: 'Shelley (Spanish (Spain))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Eddy (Spanish (Mexico))',
+    localService: true,
+    voiceURI: 'Eddy (Spanish (Mexico))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Flo (Spanish (Mexico))',
+    localService: true,
+    voiceURI: 'Flo (Spanish (Mexico))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Grandma (Spanish (Mexico))',
+    localService: true,
+    voiceURI: 'Grandma (Spanish (Mexico))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Grandpa (Spanish (Mexico))',
+    localService: true,
+    voiceURI: 'Grandpa (Spanish (Mexico))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Paulina',
+    localService: true,
+    voiceURI: 'Paulina',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Reed (Spanish (Mexico))',
+    localService: true,
+    voiceURI: 'Reed (Spanish (Mexico))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Rocko (Spanish (Mexico))',
+    localService: true,
+    voiceURI: 'Rocko (Spanish (Mexico))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Sandy (Spanish (Mexico))',
+    localService: true,
+    voiceURI: 'Sandy (Spanish (Mexico))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Shelley (Spanish (Mexico))',
+    localService: true,
+    voiceURI: 'Shelley (Spanish (Mexico))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'es-US',
+    name: 'Google español de Estados Unidos',
+    localService: false,
+    voiceURI: 'Google español de Estados Unidos',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fi-FI',
+    name: 'Eddy (Finnish (Finland))',
+    localService: true,
+    voiceURI: 'Eddy (Finnish (Finland))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fi-FI',
+    name: 'Flo (Finnish (Finland))',
+    localService: true,
+    voiceURI: 'Flo (Finnish (Finland))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fi-FI',
+    name: 'Grandma (Finnish (Finland))',
+    localService: true,
+    voiceURI: 'Grandma (Finnish (Finland))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fi-FI',
+    name: 'Grandpa (Finnish (Finland))',
+    localService: true,
+    voiceURI: 'Grandpa (Finnish (Finland))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fi-FI',
+    name: 'Reed (Finnish (Finland))',
+    localService: true,
+    voiceURI: 'Reed (Finnish (Finland))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fi-FI',
+    name: 'Rocko (Finnish (Finland))',
+    localService: true,
+    voiceURI: 'Rocko (Finnish (Finland))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fi-FI',
+    name: 'Sandy (Finnish (Finland))',
+    localService: true,
+    voiceURI: 'Sandy (Finnish (Finland))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fi-FI',
+    name: 'Satu',
+    localService: true,
+    voiceURI: 'Satu',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fi-FI',
+    name: 'Shelley (Finnish (Finland))',
+    localService: true,
+    voiceURI: 'Shelley (Finnish (Finland))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-CA',
+    name: 'Amélie',
+    localService: true,
+    voiceURI: 'Amélie',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-CA',
+    name: 'Eddy (French (Canada))',
+    localService: true,
+    voiceURI: 'Eddy (French (Canada))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-CA',
+    name: 'Flo (French (Canada))',
+    localService: true,
+    voiceURI: 'Flo (French (Canada))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-CA',
+    name: 'Grandma (French (Canada))',
+    localService: true,
+    voiceURI: 'Grandma (French (Canada))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-CA',
+    name: 'Grandpa (French (Canada))',
+    localService: true,
+    voiceURI: 'Grandpa (French (Canada))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-CA',
+    name: 'Reed (French (Canada))',
+    localService: true,
+    voiceURI: 'Reed (French (Canada))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-CA',
+    name: 'Rocko (French (Canada))',
+    localService: true,
+    voiceURI: 'Rocko (French (Canada))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-CA',
+    name: 'Sandy (French (Canada))',
+    localService: true,
+    voiceURI: 'Sandy (French (Canada))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-CA',
+    name: 'Shelley (French (Canada))',
+    localService: true,
+    voiceURI: 'Shelley (French (Canada))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Eddy (French (France))',
+    localService: true,
+    voiceURI: 'Eddy (French (France))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Flo (French (France))',
+    localService: true,
+    voiceURI: 'Flo (French (France))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Google français',
+    localService: false,
+    voiceURI: 'Google français',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Grandma (French (France))',
+    localService: true,
+    voiceURI: 'Grandma (French (France))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Grandpa (French (France))',
+    localService: true,
+    voiceURI: 'Grandpa (French (France))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Jacques',
+    localService: true,
+    voiceURI: 'Jacques',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Rocko (French (France))',
+    localService: true,
+    voiceURI: 'Rocko (French (France))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Sandy (French (France))',
+    localService: true,
+    voiceURI: 'Sandy (French (France))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Shelley (French (France))',
+    localService: true,
+    voiceURI: 'Shelley (French (France))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Thomas',
+    localService: true,
+    voiceURI: 'Thomas',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'he-IL',
+    name: 'Carmit',
+    localService: true,
+    voiceURI: 'Carmit',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'hi-IN',
+    name: 'Google हिन्दी',
+    localService: false,
+    voiceURI: 'Google हिन्दी',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'hi-IN',
+    name: 'Lekha',
+    localService: true,
+    voiceURI: 'Lekha',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'hr-HR',
+    name: 'Lana',
+    localService: true,
+    voiceURI: 'Lana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'hu-HU',
+    name: 'Tünde',
+    localService: true,
+    voiceURI: 'Tünde',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'id-ID',
+    name: 'Damayanti',
+    localService: true,
+    voiceURI: 'Damayanti',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'id-ID',
+    name: 'Google Bahasa Indonesia',
+    localService: false,
+    voiceURI: 'Google Bahasa Indonesia',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Alice',
+    localService: true,
+    voiceURI: 'Alice',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Eddy (Italian (Italy))',
+    localService: true,
+    voiceURI: 'Eddy (Italian (Italy))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Flo (Italian (Italy))',
+    localService: true,
+    voiceURI: 'Flo (Italian (Italy))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Google italiano',
+    localService: false,
+    voiceURI: 'Google italiano',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Grandma (Italian (Italy))',
+    localService: true,
+    voiceURI: 'Grandma (Italian (Italy))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Grandpa (Italian (Italy))',
+    localService: true,
+    voiceURI: 'Grandpa (Italian (Italy))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Reed (Italian (Italy))',
+    localService: true,
+    voiceURI: 'Reed (Italian (Italy))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Rocko (Italian (Italy))',
+    localService: true,
+    voiceURI: 'Rocko (Italian (Italy))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Sandy (Italian (Italy))',
+    localService: true,
+    voiceURI: 'Sandy (Italian (Italy))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Shelley (Italian (Italy))',
+    localService: true,
+    voiceURI: 'Shelley (Italian (Italy))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'ja-JP',
+    name: 'Google 日本語',
+    localService: false,
+    voiceURI: 'Google 日本語',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'ja-JP',
+    name: 'Kyoko',
+    localService: true,
+    voiceURI: 'Kyoko',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'ko-KR',
+    name: 'Google 한국의',
+    localService: false,
+    voiceURI: 'Google 한국의',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'ko-KR',
+    name: 'Yuna',
+    localService: true,
+    voiceURI: 'Yuna',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'ms-MY',
+    name: 'Amira',
+    localService: true,
+    voiceURI: 'Amira',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'nb-NO',
+    name: 'Nora',
+    localService: true,
+    voiceURI: 'Nora',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'nl-BE',
+    name: 'Ellen',
+    localService: true,
+    voiceURI: 'Ellen',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'nl-NL',
+    name: 'Google Nederlands',
+    localService: false,
+    voiceURI: 'Google Nederlands',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'nl-NL',
+    name: 'Xander',
+    localService: true,
+    voiceURI: 'Xander',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pl-PL',
+    name: 'Google polski',
+    localService: false,
+    voiceURI: 'Google polski',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pl-PL',
+    name: 'Zosia',
+    localService: true,
+    voiceURI: 'Zosia',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Eddy (Portuguese (Brazil))',
+    localService: true,
+    voiceURI: 'Eddy (Portuguese (Brazil))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Flo (Portuguese (Brazil))',
+    localService: true,
+    voiceURI: 'Flo (Portuguese (Brazil))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Google português do Brasil',
+    localService: false,
+    voiceURI: 'Google português do Brasil',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Grandma (Portuguese (Brazil))',
+    localService: true,
+    voiceURI: 'Grandma (Portuguese (Brazil))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Grandpa (Portuguese (Brazil))',
+    localService: true,
+    voiceURI: 'Grandpa (Portuguese (Brazil))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Luciana',
+    localService: true,
+    voiceURI: 'Luciana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Luciana (Enhanced)',
+    localService: true,
+    voiceURI: 'Luciana (Enhanced)',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Reed (Portuguese (Brazil))',
+    localService: true,
+    voiceURI: 'Reed (Portuguese (Brazil))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Rocko (Portuguese (Brazil))',
+    localService: true,
+    voiceURI: 'Rocko (Portuguese (Brazil))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Sandy (Portuguese (Brazil))',
+    localService: true,
+    voiceURI: 'Sandy (Portuguese (Brazil))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Shelley (Portuguese (Brazil))',
+    localService: true,
+    voiceURI: 'Shelley (Portuguese (Brazil))',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'pt-PT',
+    name: 'Joana',
+    localService: true,
+    voiceURI: 'Joana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'ro-RO',
+    name: 'Ioana',
+    localService: true,
+    voiceURI: 'Ioana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'ru-RU',
+    name: 'Google русский',
+    localService: false,
+    voiceURI: 'Google русский',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'ru-RU',
+    name: 'Milena',
+    localService: true,
+    voiceURI: 'Milena',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'sk-SK',
+    name: 'Laura',
+    localService: true,
+    voiceURI: 'Laura',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'sv-SE',
+    name: 'Alva',
+    localService: true,
+    voiceURI: 'Alva',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'th-TH',
+    name: 'Kanya',
+    localService: true,
+    voiceURI: 'Kanya',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'tr-TR',
+    name: 'Yelda',
+    localService: true,
+    voiceURI: 'Yelda',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'uk-UA',
+    name: 'Lesya',
+    localService: true,
+    voiceURI: 'Lesya',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'vi-VN',
+    name: 'Linh',
+    localService: true,
+    voiceURI: 'Linh',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'zh-CN',
+    name: 'Google 普通话（中国大陆）',
+    localService: false,
+    voiceURI: 'Google 普通话（中国大陆）',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'zh-CN',
+    name: 'Tingting',
+    localService: true,
+    voiceURI: 'Tingting',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'zh-HK',
+    name: 'Google 粤語（香港）',
+    localService: false,
+    voiceURI: 'Google 粤語（香港）',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'zh-HK',
+    name: 'Sinji',
+    localService: true,
+    voiceURI: 'Sinji',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'zh-TW',
+    name: 'Google 國語（臺灣）',
+    localService: false,
+    voiceURI: 'Google 國語（臺灣）',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Chrome',
+    os: 'macOS',
+    lang: 'zh-TW',
+    name: 'Meijia',
+    localService: true,
+    voiceURI: 'Meijia',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'ar-SA',
+    name: 'Maged',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.maged',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'cs-CZ',
+    name: 'Zuzana',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.zuzana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'da-DK',
+    name: 'Sara',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.sara',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Anna',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.anna',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'el-GR',
+    name: 'Melina',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.melina',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'en-AU',
+    name: 'Karen',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.karen',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Daniel',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.daniel',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'en-IE',
+    name: 'Moira',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.moira',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'en-IN',
+    name: 'Rishi',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.rishi',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'en-IN',
+    name: 'Veena',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.veena',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Alex',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.Alex',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Fred',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.Fred',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Samantha',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.samantha',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Victoria',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.Victoria',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'en-ZA',
+    name: 'Tessa',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.tessa',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'en-scotland',
+    name: 'Fiona',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.fiona',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'es-AR',
+    name: 'Diego',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.diego',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Jorge',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.jorge',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Monica',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.monica',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Juan',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.juan',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Paulina',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.paulina',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'fi-FI',
+    name: 'Satu',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.satu',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'fr-CA',
+    name: 'Amelie',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.amelie',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Thomas',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.thomas',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'he-IL',
+    name: 'Carmit',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.carmit',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'hi-IN',
+    name: 'Lekha',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.lekha',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'hu-HU',
+    name: 'Mariska',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.mariska',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'id-ID',
+    name: 'Damayanti',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.damayanti',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Alice',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.alice',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Luca',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.luca',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'ja-JP',
+    name: 'Kyoko',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.kyoko',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'ko-KR',
+    name: 'Yuna',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.yuna',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'nb-NO',
+    name: 'Nora',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.nora',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'nl-BE',
+    name: 'Ellen',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.ellen',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'nl-NL',
+    name: 'Xander',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.xander',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'pl-PL',
+    name: 'Zosia',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.zosia',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Luciana',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.luciana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'pt-PT',
+    name: 'Joana',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.joana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'ro-RO',
+    name: 'Ioana',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.ioana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'ru-RU',
+    name: 'Milena',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.milena',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'ru-RU',
+    name: 'Yuri',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.yuri',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'sk-SK',
+    name: 'Laura',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.laura',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'sv-SE',
+    name: 'Alva',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.alva',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'th-TH',
+    name: 'Kanya',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.kanya',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'tr-TR',
+    name: 'Yelda',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.yelda',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'zh-CN',
+    name: 'Ting-Ting',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.tingting',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'zh-HK',
+    name: 'Sin-ji',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.sinji',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Firefox',
+    os: 'macOS',
+    lang: 'zh-TW',
+    name: 'Mei-Jia',
+    localService: true,
+    voiceURI: 'urn:moz-tts:osx:com.apple.speech.synthesis.voice.meijia',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'ar-SA',
+    name: 'Maged',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.maged',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'cs-CZ',
+    name: 'Zuzana',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.zuzana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'da-DK',
+    name: 'Sara',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.sara',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'de-DE',
+    name: 'Anna',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.anna',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'el-GR',
+    name: 'Melina',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.melina',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'en-AU',
+    name: 'Karen',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.karen',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'en-GB',
+    name: 'Daniel',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.daniel',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'en-IE',
+    name: 'Moira',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.moira',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'en-IN',
+    name: 'Rishi',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.rishi',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'en-IN',
+    name: 'Veena',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.veena',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'en-SCOTLAND',
+    name: 'Fiona',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.fiona',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Alex',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.Alex',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Fred',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.Fred',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Samantha',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.samantha',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'en-US',
+    name: 'Victoria',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.Victoria',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'en-ZA',
+    name: 'Tessa',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.tessa',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'es-AR',
+    name: 'Diego',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.diego',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Jorge',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.jorge',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'es-ES',
+    name: 'Monica',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.monica',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Juan',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.juan',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'es-MX',
+    name: 'Paulina',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.paulina',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'fi-FI',
+    name: 'Satu',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.satu',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'fr-CA',
+    name: 'Amelie',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.amelie',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'fr-FR',
+    name: 'Thomas',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.thomas',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'he-IL',
+    name: 'Carmit',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.carmit',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'hi-IN',
+    name: 'Lekha',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.lekha',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'hu-HU',
+    name: 'Mariska',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.mariska',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'id-ID',
+    name: 'Damayanti',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.damayanti',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Alice',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.alice',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'it-IT',
+    name: 'Luca',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.luca',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'ja-JP',
+    name: 'Kyoko',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.kyoko',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'ko-KR',
+    name: 'Yuna',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.yuna',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'nb-NO',
+    name: 'Nora',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.nora',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'nl-BE',
+    name: 'Ellen',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.ellen',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'nl-NL',
+    name: 'Xander',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.xander',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'pl-PL',
+    name: 'Zosia',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.zosia',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'pt-BR',
+    name: 'Luciana',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.luciana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'pt-PT',
+    name: 'Joana',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.joana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'ro-RO',
+    name: 'Ioana',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.ioana',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'ru-RU',
+    name: 'Milena',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.milena',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'ru-RU',
+    name: 'Yuri',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.yuri',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'sk-SK',
+    name: 'Laura',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.laura',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'sv-SE',
+    name: 'Alva',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.alva',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'th-TH',
+    name: 'Kanya',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.kanya',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'tr-TR',
+    name: 'Yelda',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.yelda',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'zh-CN',
+    name: 'Ting-Ting',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.tingting',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'zh-HK',
+    name: 'Sin-ji',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.sinji',
+    browserVersions: [],
+    osVersions: [],
+  },
+  {
+    browser: 'Safari',
+    os: 'macOS',
+    lang: 'zh-TW',
+    name: 'Mei-Jia',
+    localService: true,
+    voiceURI: 'com.apple.speech.synthesis.voice.meijia',
+    browserVersions: [],
+    osVersions: [],
+  },
+]
+
+export type ChromeVoice = Extract<BrowserVoice, { browser: 'Chrome' }>
+export type FirefoxVoice = Extract<BrowserVoice, { browser: 'Firefox' }>
+export type SafariVoice = Extract<BrowserVoice, { browser: 'Safari' }>
+
+export type MacOSVoice = Extract<BrowserVoice, { os: 'macOS' }>
@@ -0,0 +1,182 @@
+import Symbol_observable from 'symbol-observable'
+
+import { fuzzyMatch } from './fuzzy'
+import { Recognition, recognition as defaultRecognition } from './recognition'
+import { SessionOptions } from './session'
+import { InteropObservable, Observer, Unsubscribable } from './util'
+
+export type WakeWordOptions = {
+  /** What to say before a command, or any of these */
+  phrase: string | string[]
+  /**
+   * The lowest `fuzzyMatch` score of the words heard first against the phrase, so `hey consul`
+   * still wakes `hey console`
+   *
+   * @default 0.75
+   */
+  threshold: number
+  /**
+   * Milliseconds after being woken, or after the last utterance, when the next one is taken without
+   * the phrase, 0 to always require it
+   *
+   * @default 5000
+   */
+  followUp: number
+  /** How to listen again once the browser ends the session, see `recognition.session` */
+  session: Partial<SessionOptions>
+  /**
+   * Listens continuously, whatever its `continuous` option
+   *
+   * @default recognition
+   */
+  recognition: Recognition
+}
+
+export type WakeEvent =
+  /** The phrase alone, the next utterance is taken if within `followUp` */
+  | { tag: 'wake'; phrase: string; transcript: string }
+  /** What was said after the phrase, or within `followUp`, with the phrase taken out */
+  | {
+      tag: 'utterance'
+      alternatives: Array<{ transcript: string; confidence: number }>
+      followUp: boolean
+    }
+  /** The `followUp` window closed, the phrase is needed again */
+  | { tag: 'sleep' }
+
+/**
+ * Hands-free listening, recognition runs continuously in a `session`, restarting whenever the
+ * browser ends it, but only what is said after a wake phrase comes through:
+ *
+ * ```ts
+ * wakeWord({ phrase: 'hey console' }).subscribe({
+ *   next: e => e.tag === 'utterance' && run(e.alternatives[0].transcript),
+ * })
+ * ```
+ */
+export class WakeWord implements InteropObservable<WakeEvent> {
+  constructor(readonly options: WakeWordOptions) {}
+
+  use = (options: Partial<WakeWordOptions>) => new WakeWord({ ...this.options, ...options })
+
+  /**
+   * The alternatives starting with the phrase, without it, and the phrase heard, or undefined if
+   * none starts with it
+   */
+  strip = (alternatives: Array<{ transcript: string; confidence: number }>) => {
+    const phrases = ([] as string[]).concat(this.options.phrase)
+    const { lang } = this.options.recognition.options
+    const stripped = alternatives.flatMap(({ transcript, confidence }) => {
+      const words = transcript.trim().split(/\s+/)
+      // the recognizer may split or join words of the phrase differently
+      const heads = phrases
+        .map(phrase => phrase.split(/\s+/).length)
+        .flatMap(length => [length - 1, length, length + 1])
+        .filter(length => length > 0 && length <= words.length)
+        .flatMap(length => {
+          const head = words.slice(0, length).join(' ')
+          return fuzzyMatch(phrases, head, { lang, threshold: this.options.threshold }).map(
+            match => ({ ...match, length })
+          )
+        })
+        .sort((a, b) => b.score - a.score)
+
+      return heads.length === 0
+        ? []
+        : [
+            {
+              phrase: heads[0].candidate,
+              transcript: words
+                .slice(heads[0].length)
+                .join(' ')
+                .replace(/^[.,!?;:]\s*/, ''),
+              confidence,
+            },
+          ]
+    })
+
+    return stripped.length === 0
+      ? undefined
+      : {
+          phrase: stripped[0].phrase,
+          alternatives: stripped.map(({ transcript, confidence }) => ({ transcript, confidence })),
+        }
+  };
+
+  declare [Symbol.observable]: () => this;
+  // @ts-ignore
+  [Symbol_observable] = () => this
+
+  /** Listens until unsubscribed, or until an error that listening again won't fix */
+  subscribe = (observer: Partial<Observer<WakeEvent>>): Unsubscribable => {
+    const subscriber = {
+      next: (observer.next ?? (() => {})).bind(observer),
+      error: (observer.error ?? (() => {})).bind(observer),
+      complete: (observer.complete ?? (() => {})).bind(observer),
+    }
+    let sleepTimer: ReturnType<typeof setTimeout> | undefined
+    let awake = false
+
+    const wake = () => {
+      clearTimeout(sleepTimer)
+      if (this.options.followUp <= 0) return
+      awake = true
+      sleepTimer = setTimeout(() => {
+        awake = false
+        subscriber.next({ tag: 'sleep' })
+      }, this.options.followUp)
+    }
+
+    const session = this.options.recognition
+      .use({ continuous: true })
+      .session(this.options.session)
+      .subscribe({
+        next: e => {
+          if (e.tag !== 'final') return
+
+          const stripped = this.strip(e.alternatives)
+          if (stripped && stripped.alternatives[0].transcript === '') {
+            wake()
+            subscriber.next({
+              tag: 'wake',
+              phrase: stripped.phrase,
+              transcript: e.alternatives[0].transcript,
+            })
+          } else if (stripped) {
+            wake()
+            subscriber.next({
+              tag: 'utterance',
+              alternatives: stripped.alternatives,
+              followUp: false,
+            })
+          } else if (awake) {
+            wake()
+            subscriber.next({ tag: 'utterance', alternatives: e.alternatives, followUp: true })
+          }
+        },
+        error: e => {
+          clearTimeout(sleepTimer)
+          subscriber.error(e)
+        },
+        complete: () => {
+          clearTimeout(sleepTimer)
+          subscriber.complete()
+        },
+      })
+
+    const stop = () => {
+      clearTimeout(sleepTimer)
+      session.unsubscribe()
+    }
+    return { unsubscribe: stop }
+  }
+}
+
+export const wakeWord = (options: Partial<WakeWordOptions> & Pick<WakeWordOptions, 'phrase'>) =>
+  new WakeWord({
+    threshold: 0.75,
+    followUp: 5000,
+    session: {},
+    recognition: defaultRecognition,
+    ...options,
+  })
@@ -0,0 +1,51 @@
+import { capabilities, CapabilitiesTarget } from '../src/capabilities'
+
+describe('capabilities', () => {
+  it('reports nothing supported without the APIs', async () => {
+    expect(await capabilities({})).toEqual({
+      synthesis: false,
+      recognition: false,
+      continuous: false,
+      interimResults: false,
+      pauseResume: false,
+      voiceCount: 0,
+    })
+  })
+
+  it('detects prefixed recognition and counts voices', async () => {
+    class webkitSpeechRecognition {}
+    Object.assign(webkitSpeechRecognition.prototype, { continuous: false, interimResults: false })
+
+    const voice = { name: 'Alex', lang: 'en-US' }
+    const speechSynthesis = { getVoices: () => [voice, voice] }
+
+    expect(
+      await capabilities({
+        speechSynthesis: speechSynthesis as unknown as SpeechSynthesis,
+        SpeechSynthesisUtterance: class {} as unknown as typeof SpeechSynthesisUtterance,
+        webkitSpeechRecognition:
+          webkitSpeechRecognition as unknown as CapabilitiesTarget['webkitSpeechRecognition'],
+        navigator: { userAgent: 'Mozilla/5.0 (Linux; Android 13)' },
+      })
+    ).toEqual({
+      synthesis: true,
+      recognition: 'prefixed',
+      continuous: true,
+      interimResults: true,
+      pauseResume: false,
+      voiceCount: 2,
+    })
+  })
+
+  it('gives up on voices that never load', async () => {
+    const speechSynthesis = { getVoices: () => [], addEventListener: () => {} }
+    const { voiceCount } = await capabilities(
+      {
+        speechSynthesis: speechSynthesis as unknown as SpeechSynthesis,
+        SpeechSynthesisUtterance: class {} as unknown as typeof SpeechSynthesisUtterance,
+      },
+      10
+    )
+    expect(voiceCount).toBe(0)
+  })
+})
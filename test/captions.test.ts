@@ -0,0 +1,90 @@
+/** @jest-environment node */
+import { CaptionEvent, captions, parseCaptions, toSrt, toVtt } from '../src/captions'
+
+const final = (transcript: string, speechStart: number, speechEnd: number): CaptionEvent => ({
+  tag: 'final',
+  alternatives: [{ transcript }],
+  // the engine started at 500
+  time: 500 + speechEnd + 200,
+  offset: speechEnd + 200,
+  speechStart,
+  speechEnd,
+})
+
+// as read back from a JSON log
+const log: CaptionEvent[] = JSON.parse(
+  JSON.stringify([
+    { tag: 'start', time: 500, offset: 0 },
+    final('hello everyone and welcome', 1000, 3000),
+    final('today we talk about captions', 5000, 7000),
+    { tag: 'end', time: 8000, offset: 7500 },
+  ])
+)
+
+describe('captions', () => {
+  it('splits cues on pauses and wraps lines', () => {
+    const builder = captions({ maxLineLength: 16, origin: 0 })
+    log.forEach(builder.add)
+
+    expect(builder.cues).toEqual([
+      { start: 1500, end: 3500, text: 'hello everyone\nand welcome' },
+      { start: 5500, end: 7500, text: 'today we talk\nabout captions' },
+    ])
+  })
+
+  it('splits cues too long to fit or to stay on screen', () => {
+    const lines = captions({ maxLineLength: 16, maxLines: 1 })
+    log.forEach(lines.add)
+    expect(lines.cues.map(cue => cue.text)).toEqual([
+      'hello everyone',
+      'and welcome',
+      'today we talk',
+      'about captions',
+    ])
+
+    const short = captions({ maxDuration: 1000 })
+    log.forEach(short.add)
+    expect(short.cues.every(cue => cue.end - cue.start <= 1000)).toBe(true)
+    // times are since the engine of the first event started by default
+    expect(short.cues[0].start).toBe(1000)
+  })
+
+  it('serializes to WebVTT and SRT and parses them back', () => {
+    const cues = [
+      { start: 1000, end: 3000, text: 'hello everyone\nand welcome' },
+      { start: 3723004, end: 3725000, text: 'the end' },
+    ]
+
+    expect(toVtt(cues)).toBe(
+      [
+        'WEBVTT',
+        '',
+        '00:00:01.000 --> 00:00:03.000',
+        'hello everyone',
+        'and welcome',
+        '',
+        '01:02:03.004 --> 01:02:05.000',
+        'the end',
+        '',
+      ].join('\n')
+    )
+    expect(toSrt(cues)).toBe(
+      [
+        '1',
+        '00:00:01,000 --> 00:00:03,000',
+        'hello everyone',
+        'and welcome',
+        '',
+        '2',
+        '01:02:03,004 --> 01:02:05,000',
+        'the end',
+        '',
+      ].join('\n')
+    )
+    expect(parseCaptions(toVtt(cues))).toEqual(cues)
+    expect(parseCaptions(toSrt(cues).replace(/\n/g, '\r\n'))).toEqual(cues)
+    expect(
+      parseCaptions('WEBVTT\n\nNOTE edited\n\nintro\n00:01.500 --> 00:02.000 align:start\nhi\n')
+    ).toEqual([{ start: 1500, end: 2000, text: 'hi' }])
+  })
+})
@@ -0,0 +1,60 @@
+import { chunkText, sentencesOf } from '../src/chunk'
+
+describe('chunkText', () => {
+  it('keeps short text whole', () => {
+    expect(chunkText('Hello world.', 200)).toEqual(['Hello world.'])
+  })
+
+  it('packs whole sentences into chunks', () => {
+    expect(chunkText('One two. Three four. Five six.', 25, 'en')).toEqual([
+      'One two. Three four. ',
+      'Five six.',
+    ])
+  })
+
+  it('falls back to clauses, then words', () => {
+    expect(chunkText('First clause, second clause, and a very long third one', 20, 'en')).toEqual([
+      'First clause, ',
+      'second clause, and ',
+      'a very long third ',
+      'one',
+    ])
+  })
+
+  it('cuts text with no boundaries at all', () => {
+    expect(chunkText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij'])
+  })
+
+  it('never loses characters', () => {
+    const text = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit! Sed do eiusmod? '.repeat(
+      20
+    )
+    const chunks = chunkText(text, 50, 'en')
+
+    expect(chunks.join('')).toBe(text)
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(50))
+  })
+})
+
+describe('sentencesOf', () => {
+  const collect = async (fragments: string[]) => {
+    const stream = (async function* () {
+      yield* fragments
+    })()
+    const sentences: string[] = []
+    for await (const sentence of sentencesOf(stream, 'en')) sentences.push(sentence)
+    return sentences
+  }
+
+  it('yields sentences once the next one starts', async () => {
+    expect(await collect(['Hel', 'lo there. How', ' are', ' you? I am', ' fine'])).toEqual([
+      'Hello there. ',
+      'How are you? ',
+      'I am fine',
+    ])
+  })
+
+  it('yields whatever is left when the stream ends', async () => {
+    expect(await collect(['No punctuation at all'])).toEqual(['No punctuation at all'])
+  })
+})
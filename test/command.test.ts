@@ -0,0 +1,98 @@
+import { spawn as nodeSpawn } from 'child_process'
+import { EventEmitter } from 'events'
+import { PassThrough } from 'stream'
+
+import { createCommandEngine, espeakNg, piper, say } from '../src/command'
+import { synthesis } from '../src/synthesis'
+
+const fakeSpawn = (stdout = '', code = 0) => {
+  const calls: { command: string; args: string[]; stdin: string }[] = []
+
+  const spawn = jest.fn((command: string, args: string[]) => {
+    const call = { command, args, stdin: '' }
+    calls.push(call)
+
+    const child = Object.assign(new EventEmitter(), {
+      stdin: new PassThrough(),
+      stdout: new PassThrough(),
+      kill: jest.fn(),
+    })
+    child.stdin.on('data', data => (call.stdin += data))
+    setTimeout(() => {
+      child.stdout.end(stdout)
+      child.emit('close', code)
+    })
+    return child
+  })
+
+  return { spawn, calls }
+}
+
+const espeakVoices = `Pty Language       Age/Gender VoiceName          File                 Other Languages
+ 5  af              --/M      Afrikaans          gmw/af
+ 5  en-us           --/M      English_(America)  gmw/en-US            (en 2)
+`
+
+describe('command engine', () => {
+  it('parses the voice list of the command', async () => {
+    const { spawn, calls } = fakeSpawn(espeakVoices)
+    const voices = await createCommandEngine(espeakNg, { spawn }).getVoices()
+
+    expect(calls[0].args).toEqual(['--voices'])
+    expect(voices.map(({ name, lang, voiceURI }) => ({ name, lang, voiceURI }))).toEqual([
+      { name: 'Afrikaans', lang: 'af', voiceURI: 'af' },
+      { name: 'English (America)', lang: 'en-US', voiceURI: 'en-us' },
+    ])
+  })
+
+  it('lists the voices again after a failure', async () => {
+    const spawn = jest.fn(fakeSpawn('', 1).spawn)
+    const engine = createCommandEngine(espeakNg, { spawn })
+
+    await expect(engine.getVoices()).rejects.toThrow('exited with code 1')
+    spawn.mockImplementation(fakeSpawn(espeakVoices).spawn)
+    expect(await engine.getVoices()).toHaveLength(2)
+  })
+
+  it('takes the spawn of Node', () => {
+    // nothing is spawned until voices are needed, this is for the types
+    expect(createCommandEngine(espeakNg, { spawn: nodeSpawn })).toHaveProperty('speak')
+  })
+
+  it('parses say voices with spaces in the name', () => {
+    const { parse } = say.voices as Exclude<typeof say.voices, unknown[]>
+    expect(
+      parse(
+        'Alex                en_US    # Most people recognize me by my voice.\n' +
+          'Eddy (English (US)) en_US    # Hello! My name is Eddy.\n'
+      ).map(v => v.name)
+    ).toEqual(['Alex', 'Eddy (English (US))'])
+  })
+
+  it('speaks through synthesis, mapping options to flags', async () => {
+    const { spawn, calls } = fakeSpawn(espeakVoices)
+    const engine = createCommandEngine(espeakNg, { spawn, output: i => `out-${i}.wav` })
+
+    const result = await synthesis.use({ engine, lang: 'en-US', rate: 2, volume: 0.5 }).speak('Hi')
+
+    expect(result.status).toBe('completed')
+    expect(calls[1]).toEqual({
+      command: 'espeak-ng',
+      args: ['-v', 'en-us', '-s', '350', '-p', '50', '-a', '50', '-w', 'out-0.wav', '--stdin'],
+      stdin: 'Hi',
+    })
+  })
+
+  it('fails the speech when the command fails', async () => {
+    const { spawn } = fakeSpawn('', 1)
+    const engine = createCommandEngine(piper(['voices/en_US-lessac-medium.onnx']), { spawn })
+
+    expect((await engine.getVoices())[0]).toMatchObject({
+      name: 'en_US-lessac-medium',
+      lang: 'en-US',
+    })
+    await expect(synthesis.use({ engine }).speak('Hi')).rejects.toMatchObject({
+      code: 'synthesis-failed',
+    })
+  })
+})
@@ -0,0 +1,87 @@
+import { commands, pattern, slot } from '../src/commands'
+import { RecognitionEngine } from '../src/engine'
+import { recognition } from '../src/recognition'
+
+const alternatives = (...transcripts: string[]) =>
+  transcripts.map((transcript, i) => ({ transcript, confidence: 0.9 - i / 10 }))
+
+const engineSaying = (...finals: string[][]): RecognitionEngine => ({
+  start: (_, emit) => {
+    finals.forEach(transcripts =>
+      emit({ tag: 'final', alternatives: alternatives(...transcripts) })
+    )
+    emit({ tag: 'end' })
+    return { stop: () => {}, abort: () => {} }
+  },
+})
+
+describe('commands', () => {
+  it('extracts slots from string patterns', () => {
+    const router = commands()
+      .on('open :page', () => {})
+      .on('set volume to :n(number)', () => {})
+      .on('(go | navigate) back', () => {})
+
+    expect(router.match(alternatives('Open the shopping cart.'))?.match.slots).toEqual({
+      page: 'the shopping cart',
+    })
+    expect(router.match(alternatives('set volume to 7'))?.match.slots).toEqual({ n: 7 })
+    expect(router.match(alternatives('set volume to twenty five'))?.match.slots).toEqual({ n: 25 })
+    expect(router.match(alternatives('Set volume to 3.5.'))?.match.slots).toEqual({ n: 3.5 })
+    expect(router.match(alternatives('navigate back'))?.match.pattern).toBe('(go | navigate) back')
+    expect(router.match(alternatives('set volume to loud'))).toBeUndefined()
+  })
+
+  it('types slots of string patterns', () => {
+    const handler = jest.fn((slots: { n: number; unit: string }) => slots.n.toFixed())
+    const router = commands()
+      .on('wait :n(number) :unit', slots => handler(slots))
+      // @ts-expect-error text slots are strings
+      .on('open :page', ({ page }) => page.toFixed())
+
+    expect(router.match(alternatives('wait 10 minutes'))?.match.slots).toEqual({
+      n: 10,
+      unit: 'minutes',
+    })
+  })
+
+  it('types slots of tagged patterns', () => {
+    const handler = jest.fn((slots: { n: number; unit: string }) => slots.n.toFixed())
+    const router = commands().on(pattern`wait ${slot.number('n')} ${slot.text('unit')}`, handler)
+
+    expect(router.match(alternatives('wait 10 minutes'))?.match.slots).toEqual({
+      n: 10,
+      unit: 'minutes',
+    })
+  })
+
+  it('dispatches the best matching alternative with its confidence', () => {
+    const open = jest.fn()
+    const next = jest.fn()
+
+    commands(
+      recognition.use({ engine: engineSaying(['hope and settings', 'open settings'], ['hmm']) })
+    )
+      .on('open :page', open)
+      .subscribe({ next })
+
+    expect(open).toHaveBeenCalledWith(
+      { page: 'settings' },
+      {
+        pattern: 'open :page',
+        slots: { page: 'settings' },
+        transcript: 'open settings',
+        confidence: 0.8,
+      }
+    )
+    expect(next.mock.calls.map(([e]) => e.tag)).toEqual(['command', 'unmatched'])
+  })
+
+  it('listens to a single command', async () => {
+    const router = commands(recognition.use({ engine: engineSaying(['go back']) })).on(
+      '(go|navigate) back',
+      () => {}
+    )
+    expect(await router.listen()).toMatchObject({ tag: 'command', transcript: 'go back' })
+  })
+})
@@ -0,0 +1,65 @@
+import { dictation } from '../src/dictation'
+
+describe('dictation', () => {
+  it('writes spoken punctuation and capitalizes sentences', () => {
+    const notes = dictation()
+
+    notes.add('patient reports mild pain comma no fever period')
+    expect(notes.add('follow up in two weeks question mark')).toBe(
+      'Patient reports mild pain, no fever. Follow up in two weeks?'
+    )
+    expect(notes.add('new paragraph plan colon rest')).toBe(
+      'Patient reports mild pain, no fever. Follow up in two weeks?\n\nPlan: rest'
+    )
+  })
+
+  it('takes final events only, keeping the punctuation of the recognizer', () => {
+    const notes = dictation()
+
+    notes.add({ tag: 'interim', alternatives: [{ transcript: 'blood' }] })
+    expect(
+      notes.add({ tag: 'final', alternatives: [{ transcript: 'blood pressure, normal.' }] })
+    ).toBe('Blood pressure, normal.')
+  })
+
+  it('scratches and caps the words before or the last phrase', () => {
+    const notes = dictation()
+
+    notes.add('seen by doctor smith cap that')
+    expect(notes.text).toBe('Seen By Doctor Smith')
+    notes.add('today')
+    expect(notes.add('scratch that')).toBe('Seen By Doctor Smith')
+    expect(notes.add('yesterday no scratch that on monday')).toBe('Seen By Doctor Smith on monday')
+    expect(notes.undo()).toBe('Seen By Doctor Smith')
+  })
+
+  it('writes in uppercase between all caps and end caps', () => {
+    const notes = dictation()
+
+    notes.add('allergic to all caps penicillin')
+    expect(notes.add('amoxicillin end caps since childhood')).toBe(
+      'Allergic to PENICILLIN AMOXICILLIN since childhood'
+    )
+  })
+
+  it('follows the language', () => {
+    expect(dictation('es-ES').add('hola coma qué tal punto y coma adiós')).toBe(
+      'Hola, qué tal; adiós'
+    )
+    expect(dictation('fr-FR').add("ça va point d'interrogation oui")).toBe('Ça va ? Oui')
+    expect(dictation('de-DE').add('alles groß hallo ende groß welt komma groß schreiben')).toBe(
+      'HALLO Welt,'
+    )
+    expect(dictation('ru-RU').add('привет запятая как дела вопросительный знак')).toBe(
+      'Привет, как дела?'
+    )
+    expect(dictation('pl-PL').add('cześć przecinek wszystko wielkimi łódź')).toBe('Cześć, ŁÓDŹ')
+    expect(dictation('da-DK').add('hej spørgsmålstegn')).toBe('Hej?')
+    expect(dictation('cmn-Hans-CN').add('你好逗号今天天气很好句号')).toBe('你好，今天天气很好。')
+    expect(dictation('sw-KE').add('habari. karibu sana')).toBe('Habari. Karibu sana')
+
+    const japanese = dictation('ja-JP')
+    japanese.add('こんにちは')
+    expect(japanese.add('元気です')).toBe('こんにちは元気です')
+  })
+})
@@ -0,0 +1,72 @@
+import { commands, pattern, slot } from '../src/commands'
+import {
+  editDistance,
+  editSimilarity,
+  fuzzyMatch,
+  phoneticKey,
+  phoneticSimilarity,
+  tokenSetSimilarity,
+} from '../src/fuzzy'
+import { doubleMetaphone } from '../src/metaphone'
+
+describe('similarities', () => {
+  it('measures edits ignoring case and punctuation', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3)
+    expect(editSimilarity('Hello, World!', 'hello world')).toBe(1)
+    expect(editSimilarity('abcd', 'abcx')).toBe(0.75)
+  })
+
+  it('ignores word order and extra words', () => {
+    expect(tokenSetSimilarity('play some jazz please', 'jazz play')).toBe(1)
+    expect(tokenSetSimilarity('play jazz', 'stop')).toBeLessThan(0.5)
+  })
+
+  it('keys words by how they sound', () => {
+    expect(doubleMetaphone('Smith')).toEqual({ primary: 'SM0', secondary: 'XMT' })
+    expect(doubleMetaphone('Schmidt')).toEqual({ primary: 'XMT', secondary: 'SMT' })
+    expect(doubleMetaphone('knight')).toEqual({ primary: 'NT', secondary: 'NT' })
+    expect(phoneticKey('cooper netties')).toBe(phoneticKey('kubernetes'))
+    expect(phoneticSimilarity('Smith', 'Schmidt')).toBe(1)
+  })
+
+  it('has phonetic rules per language', () => {
+    expect(phoneticKey('vaca', 'es-ES')).toBe(phoneticKey('baca', 'es'))
+    expect(phoneticKey('Schwarz', 'de')).toBe(phoneticKey('schwartz', 'de'))
+    expect(phoneticKey('bateau', 'fr')).toBe(phoneticKey('bato', 'fr'))
+  })
+})
+
+describe('fuzzyMatch', () => {
+  const alternatives = [
+    { transcript: 'open cooper netties', confidence: 0.8 },
+    { transcript: 'open calendars', confidence: 0.3 },
+  ]
+
+  it('ranks candidates by their closest alternative', () => {
+    const [best, second] = fuzzyMatch(['calendar', 'kubernetes'], alternatives)
+
+    expect(best).toMatchObject({ candidate: 'calendar', transcript: 'open calendars' })
+    expect(second).toMatchObject({ candidate: 'kubernetes', transcript: 'open cooper netties' })
+    expect(best.score).toBeGreaterThan(second.score)
+  })
+
+  it('leaves out what scores under the threshold', () => {
+    expect(fuzzyMatch(['kubernetes', 'mail'], 'cooper netties', { threshold: 0.6 })).toEqual([
+      expect.objectContaining({ candidate: 'kubernetes', confidence: 1 }),
+    ])
+    expect(fuzzyMatch(['mail'], [])).toEqual([])
+  })
+
+  it('fills command slots', () => {
+    const handler = jest.fn()
+    const router = commands().on(
+      pattern`open ${slot.fuzzy('app', ['kubernetes', 'calendar'] as const)}`,
+      handler
+    )
+
+    expect(
+      router.match([{ transcript: 'Open cooper netties', confidence: 1 }])?.match.slots
+    ).toEqual({ app: 'kubernetes' })
+    expect(router.match([{ transcript: 'open the pod bay doors', confidence: 1 }])).toBeUndefined()
+  })
+})
@@ -0,0 +1,79 @@
+import { createWebRecognitionEngine, WebRecognitionTarget } from '../src/engine'
+import { grammar, oneOf, optional, repeat, seq, weighted } from '../src/grammar'
+import { recognition } from '../src/recognition'
+
+const bins = grammar('warehouse')
+  .rule('letter', oneOf('alpha', 'bravo', weighted('charlie', 2)), { public: false })
+  .rule('digit', oneOf('one', 'two', 'three'), { public: false })
+  .rule('bin', ref => seq(optional('bin'), ref('letter'), repeat(ref('digit'), 1)))
+
+describe('grammar', () => {
+  it('serializes to JSGF', () => {
+    expect(bins.toString()).toBe(
+      [
+        '#JSGF V1.0;',
+        'grammar warehouse;',
+        '<letter> = (alpha | bravo | /2/ charlie);',
+        '<digit> = (one | two | three);',
+        'public <bin> = [bin] <letter> <digit>+;',
+      ].join('\n')
+    )
+  })
+
+  it('matches whole transcripts against public rules', () => {
+    expect(bins.matches('Bin Alpha one two.')).toBe(true)
+    expect(bins.matches('charlie three')).toBe(true)
+    expect(bins.matches('alpha')).toBe(false)
+    expect(bins.matches('one two')).toBe(false)
+    expect(bins.matches('bin delta one')).toBe(false)
+  })
+
+  it('ranks matching alternatives first', () => {
+    expect(
+      bins.rerank([
+        { transcript: 'bean alpha won' },
+        { transcript: 'bin alpha one' },
+        { transcript: 'x' },
+      ])
+    ).toEqual([
+      { transcript: 'bin alpha one' },
+      { transcript: 'bean alpha won' },
+      { transcript: 'x' },
+    ])
+  })
+
+  it('reranks recognition results and attaches to SpeechGrammarList', async () => {
+    const added: string[] = []
+    class SpeechGrammarList {
+      addFromString = (grammar: string) => added.push(grammar)
+    }
+    class webkitSpeechRecognition extends EventTarget {
+      grammars?: SpeechGrammarList
+      start = () =>
+        this.dispatchEvent(
+          Object.assign(new Event('result'), {
+            resultIndex: 0,
+            results: [
+              Object.assign(
+                [
+                  { transcript: 'bean bravo too', confidence: 0.9 },
+                  { transcript: 'bin bravo two', confidence: 0.7 },
+                ],
+                { isFinal: true }
+              ),
+            ],
+          })
+        )
+    }
+
+    const engine = createWebRecognitionEngine({
+      webkitSpeechRecognition:
+        webkitSpeechRecognition as unknown as WebRecognitionTarget['webkitSpeechRecognition'],
+      SpeechGrammarList: SpeechGrammarList as unknown as WebRecognitionTarget['SpeechGrammarList'],
+    })
+    expect(await recognition.use({ engine, grammar: bins, maxAlternatives: 2 }).listen()).toBe(
+      'bin bravo two'
+    )
+    expect(added).toEqual([bins.toString()])
+  })
+})
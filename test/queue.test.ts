@@ -0,0 +1,112 @@
+import { EngineCallbacks, SynthesisEngine } from '../src/engine'
+import { SpeechQueue } from '../src/queue'
+import { synthesis } from '../src/synthesis'
+
+const flush = () => new Promise(resolve => setTimeout(resolve))
+
+/** Speaks until `end` is called, so the queue can be changed in between */
+const fakeQueue = () => {
+  const spoken: string[] = []
+  let pending: EngineCallbacks | undefined
+
+  const engine: SynthesisEngine = {
+    getVoices: async () => [
+      { name: 'Fake', lang: 'en-US', localService: true, default: true, voiceURI: 'fake' },
+    ],
+    speak: (utterance, callbacks) => {
+      spoken.push(utterance.text)
+      pending = callbacks
+    },
+    cancel: () => (pending = undefined),
+    pause: () => {},
+    resume: () => {},
+  }
+
+  const end = async () => {
+    await flush()
+    pending?.onend()
+    await flush()
+  }
+
+  return { queue: new SpeechQueue(synthesis.use({ engine })), spoken, end }
+}
+
+describe('SpeechQueue', () => {
+  it('goes by priority, then by order', async () => {
+    const { queue, spoken, end } = fakeQueue()
+
+    queue.speak('first')
+    queue.speak('low')
+    queue.speak('high', { priority: 5 })
+    queue.speak('high too', { priority: 5 })
+    for (let i = 0; i < 4; i++) await end()
+
+    expect(spoken).toEqual(['first', 'high', 'high too', 'low'])
+  })
+
+  it('interrupts what is being spoken', async () => {
+    const { queue, spoken, end } = fakeQueue()
+
+    const first = queue.speak('first')
+    queue.speak('later')
+    await flush()
+    queue.speak('urgent', { policy: 'interrupt' })
+
+    expect((await first).status).toBe('cancelled')
+    await end()
+    await end()
+    expect(spoken).toEqual(['first', 'urgent', 'later'])
+  })
+
+  it('replaces the same channel only', async () => {
+    const { queue, spoken, end } = fakeQueue()
+
+    const speaking = queue.speak('score 1-0', { channel: 'score' })
+    const queued = queue.speak('score 2-0', { channel: 'score' })
+    queue.speak('half time', { channel: 'clock' })
+    await flush()
+    queue.speak('score 2-1', { channel: 'score', policy: 'replace-same-channel' })
+
+    expect((await speaking).status).toBe('cancelled')
+    expect((await queued).status).toBe('cancelled')
+    await end()
+    await end()
+    expect(spoken).toEqual(['score 1-0', 'half time', 'score 2-1'])
+  })
+
+  it('drops when busy', async () => {
+    const { queue, spoken, end } = fakeQueue()
+
+    const idle = queue.speak('idle', { policy: 'drop-if-busy' })
+    const busy = queue.speak('busy', { policy: 'drop-if-busy' })
+
+    expect((await busy).status).toBe('cancelled')
+    await end()
+    expect((await idle).status).toBe('completed')
+    expect(spoken).toEqual(['idle'])
+  })
+
+  it('clears a channel and emits the entries on every change', async () => {
+    const { queue, end } = fakeQueue()
+    const next = jest.fn()
+    queue.subscribe({ next })
+
+    queue.speak('a', { channel: 'news' })
+    queue.speak('b', { channel: 'news' })
+    queue.speak('c', { channel: 'weather', priority: 1 })
+    expect(queue.entries.map(e => [e.text, e.status])).toEqual([
+      ['a', 'speaking'],
+      ['c', 'pending'],
+      ['b', 'pending'],
+    ])
+
+    queue.clear('news')
+    await flush()
+    expect(queue.entries.map(e => [e.text, e.status])).toEqual([['c', 'speaking']])
+    await end()
+
+    expect(next.mock.calls[0]).toEqual([[]])
+    expect(next).toHaveBeenLastCalledWith([])
+    expect(next.mock.calls.map(([entries]) => entries.length)).toContain(3)
+  })
+})
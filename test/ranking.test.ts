@@ -0,0 +1,53 @@
+import { rankVoices } from '../src/ranking'
+
+const voice = (
+  name: string,
+  lang: string,
+  localService = true,
+  isDefault = false
+): SpeechSynthesisVoice => ({ name, lang, localService, default: isDefault, voiceURI: name })
+
+const voices = [
+  voice('Amelie', 'fr-CA'),
+  voice('Google français', 'fr-FR', false),
+  voice('Thomas', 'fr-FR'),
+  voice('Daniel', 'en-GB', true, true),
+]
+
+const names = (matches: { voice: SpeechSynthesisVoice }[]) => matches.map(m => m.voice.name)
+
+describe('rankVoices', () => {
+  it('ranks by the first candidate matched', () => {
+    expect(
+      names(
+        rankVoices(voices, [
+          { name: 'Jacques' },
+          { lang: 'fr-FR', localService: true },
+          { lang: 'fr' },
+        ])
+      )
+    ).toEqual(['Thomas', 'Amelie', 'Google français'])
+  })
+
+  it('matches languages by prefix', () => {
+    const [match] = rankVoices(voices, [{ lang: 'fr-ca' }, { lang: 'en' }])
+    expect(match.voice.name).toBe('Amelie')
+    expect(rankVoices(voices, [{ lang: 'en' }])[0].reasons).toContain(
+      `'en-GB' is a variant of 'en'`
+    )
+  })
+
+  it('prefers local voices within the same candidate', () => {
+    expect(names(rankVoices(voices, [{ lang: 'fr-FR' }]))).toEqual(['Thomas', 'Google français'])
+    expect(names(rankVoices(voices, [{ lang: 'fr-FR' }], { localService: 0 }))).toEqual([
+      'Google français',
+      'Thomas',
+    ])
+  })
+
+  it('falls back to every voice when nothing matches', () => {
+    const matches = rankVoices(voices, [{ name: 'Jacques' }])
+    expect(names(matches)).toEqual(['Daniel', 'Amelie', 'Thomas', 'Google français'])
+    expect(matches[0].candidate).toBeUndefined()
+  })
+})
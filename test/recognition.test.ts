@@ -0,0 +1,191 @@
+import { RecognitionEngine } from '../src/engine'
+import {
+  AbortError,
+  NotSupportedError,
+  PermissionDeniedError,
+  RecognitionError,
+  TimeoutError,
+} from '../src/errors'
+import { recognition, RecognitionEvent } from '../src/recognition'
+
+const scriptedEngine = (script: RecognitionEvent[]) => {
+  const control = { stop: jest.fn(), abort: jest.fn() }
+  const engine: RecognitionEngine = {
+    start: jest.fn((_, emit) => {
+      script.forEach(emit)
+      return control
+    }),
+  }
+  return { engine, control }
+}
+
+const final = (transcript: string): RecognitionEvent => ({
+  tag: 'final',
+  alternatives: [{ transcript, confidence: 0.9 }],
+})
+
+describe('recognition engines', () => {
+  it('listens through the engine given to use', async () => {
+    const { engine } = scriptedEngine([{ tag: 'start' }, final('hello'), { tag: 'end' }])
+
+    expect(await recognition.use({ engine, lang: 'pt-BR' }).listen()).toBe('hello')
+    expect(engine.start).toHaveBeenCalledWith(
+      expect.objectContaining({ lang: 'pt-BR', continuous: false }),
+      expect.any(Function)
+    )
+  })
+
+  it('rejects listen with typed errors', async () => {
+    const network = scriptedEngine([{ tag: 'error', error: 'network', message: '' }])
+    const error = await recognition
+      .use({ engine: network.engine, lang: 'de-DE' })
+      .listen()
+      .catch(e => e)
+
+    expect(error).toBeInstanceOf(RecognitionError)
+    expect(error).toMatchObject({ code: 'network', recoverable: true, options: { lang: 'de-DE' } })
+
+    const denied = scriptedEngine([{ tag: 'error', error: 'not-allowed', message: 'denied' }])
+    const deniedError = await recognition
+      .use({ engine: denied.engine })
+      .listen()
+      .catch(e => e)
+
+    expect(deniedError).toBeInstanceOf(PermissionDeniedError)
+    expect(deniedError).toMatchObject({ recoverable: false, message: 'denied' })
+  })
+
+  it('resolves listenDetailed with alternatives and how it ended', async () => {
+    const alternatives = [
+      { transcript: 'flour', confidence: 0.8 },
+      { transcript: 'flower', confidence: 0.6 },
+      { transcript: 'flow', confidence: 0.1 },
+    ]
+    const { engine } = scriptedEngine([
+      { tag: 'start' },
+      { tag: 'speechstart' },
+      { tag: 'speechend' },
+      { tag: 'final', alternatives },
+      { tag: 'end' },
+    ])
+    const result = await recognition.use({ engine, maxAlternatives: 2 }).listenDetailed()
+
+    expect(result).toMatchObject({
+      alternatives: alternatives.slice(0, 2),
+      lang: 'en-US',
+      endReason: 'final',
+    })
+    expect(result.speechStartTime).toBeGreaterThanOrEqual(result.startTime)
+    expect(result.endTime).toBeGreaterThanOrEqual(result.speechEndTime!)
+  })
+
+  it('resolves listenDetailed on silence and nomatch', async () => {
+    const silence = scriptedEngine([
+      { tag: 'start' },
+      { tag: 'error', error: 'no-speech', message: '' },
+      { tag: 'end' },
+    ])
+    const nomatch = scriptedEngine([{ tag: 'start' }, { tag: 'nomatch' }, { tag: 'end' }])
+
+    expect(await recognition.use({ engine: silence.engine }).listenDetailed()).toMatchObject({
+      alternatives: [],
+      endReason: 'silence',
+    })
+    expect(await recognition.use({ engine: nomatch.engine }).listenDetailed()).toMatchObject({
+      endReason: 'nomatch',
+    })
+  })
+
+  it('emits every event and completes on end', () => {
+    const { engine, control } = scriptedEngine([{ tag: 'start' }, final('hi'), { tag: 'end' }])
+    const next = jest.fn()
+    const complete = jest.fn()
+
+    recognition.use({ engine }).subscribe({ next, complete }).unsubscribe()
+
+    expect(next.mock.calls.map(([e]) => e.tag)).toEqual(['start', 'final', 'end'])
+    expect(complete).toHaveBeenCalledTimes(1)
+    expect(control.stop).toHaveBeenCalled()
+  })
+
+  it('times events since the engine started, and finals from speech', () => {
+    const { engine } = scriptedEngine([
+      { tag: 'start' },
+      { tag: 'speechstart' },
+      { tag: 'interim', alternatives: [{ transcript: 'h', confidence: 0.1 }] },
+      { tag: 'speechend' },
+      final('hi'),
+      { tag: 'end' },
+    ])
+    let clock = 1000
+    const spy = jest.spyOn(performance, 'now').mockImplementation(() => (clock += 100) - 100)
+    const next = jest.fn()
+
+    recognition.use({ engine }).subscribe({ next })
+    spy.mockRestore()
+
+    expect(next.mock.calls.map(([e]) => e.offset)).toEqual([100, 200, 300, 400, 500, 600])
+    expect(next.mock.calls[4][0]).toMatchObject({
+      tag: 'final',
+      time: 1500,
+      speechStart: 200,
+      speechEnd: 400,
+      latency: 100,
+    })
+  })
+
+  it('errors the subscriber when there is no recognition at all', () => {
+    const error = jest.fn()
+    recognition.subscribe({ error })
+    expect(error.mock.calls[0][0]).toBeInstanceOf(NotSupportedError)
+  })
+
+  describe('abort options', () => {
+    // listens until stopped, then reports what it heard
+    const stoppableEngine = (heard: RecognitionEvent[] = []) => {
+      let emit: (e: RecognitionEvent) => void = () => {}
+      const control = {
+        stop: jest.fn(() => [...heard, { tag: 'end' } as const].forEach(emit)),
+        abort: jest.fn(() => emit({ tag: 'end' })),
+      }
+      const engine: RecognitionEngine = {
+        start: (_, callback) => {
+          emit = callback
+          emit({ tag: 'start' })
+          return control
+        },
+      }
+      return { engine, control }
+    }
+
+    it('aborts with the signal', async () => {
+      const { engine, control } = stoppableEngine()
+      const controller = new AbortController()
+      const listening = recognition.use({ engine, signal: controller.signal }).listen()
+      controller.abort('idle')
+
+      const error = await listening.catch(e => e)
+      expect(error).toBeInstanceOf(AbortError)
+      expect(error.code).toBe('aborted')
+      expect(control.abort).toHaveBeenCalled()
+    })
+
+    it('gives up when nothing is heard', async () => {
+      const { engine, control } = stoppableEngine()
+      const error = await recognition
+        .use({ engine, initialSilenceTimeout: 10 })
+        .listenDetailed()
+        .catch(e => e)
+
+      expect(error).toBeInstanceOf(TimeoutError)
+      expect(error.timeout).toBe('initialSilenceTimeout')
+      expect(control.abort).toHaveBeenCalled()
+    })
+
+    it('keeps what was heard on maxDuration', async () => {
+      const { engine, control } = stoppableEngine([final('so far')])
+      expect(await recognition.use({ engine, maxDuration: 10 }).listen()).toBe('so far')
+      expect(control.stop).toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { RecognitionEngine } from '../src/engine'
+import { PermissionDeniedError, RecognitionError } from '../src/errors'
+import { recognition, RecognitionEvent } from '../src/recognition'
+import { SessionEvent } from '../src/session'
+
+const control = { stop: jest.fn(), abort: jest.fn() }
+
+/** Each session emits its script then ends, the last one keeps going */
+const sessionsEngine = (...sessions: RecognitionEvent[][]) => {
+  const engine: RecognitionEngine = {
+    start: jest.fn((_, emit) => {
+      const script = sessions.shift()
+      ;(script ?? []).forEach(emit)
+      if (sessions.length > 0 || !script) emit({ tag: 'end' })
+      return control
+    }),
+  }
+  return engine
+}
+
+const noSpeech: RecognitionEvent = { tag: 'error', error: 'no-speech', message: '' }
+
+describe('recognition sessions', () => {
+  beforeEach(() => jest.useFakeTimers())
+  afterEach(() => jest.useRealTimers())
+
+  it('restarts failed sessions with exponential backoff', () => {
+    const engine = sessionsEngine(
+      [noSpeech],
+      [{ tag: 'error', error: 'network', message: '' }],
+      [],
+      [{ tag: 'final', alternatives: [{ transcript: 'minutes', confidence: 1 }] }],
+      []
+    )
+    const events: SessionEvent[] = []
+    recognition
+      .use({ engine })
+      .session()
+      .subscribe({ next: e => events.push(e) })
+
+    jest.advanceTimersByTime(250 + 500 + 1000)
+    expect(events.filter(e => e.tag === 'restart')).toEqual([
+      { tag: 'restart', session: 1, delay: 250, error: 'no-speech' },
+      { tag: 'restart', session: 2, delay: 500, error: 'network' },
+      { tag: 'restart', session: 3, delay: 1000, error: undefined },
+      // heard something, so right away and the backoff starts over
+      { tag: 'restart', session: 4, delay: 0, error: undefined },
+    ])
+    expect(events).toContainEqual(expect.objectContaining({ tag: 'final', session: 4 }))
+    expect(engine.start).toHaveBeenCalledTimes(5)
+  })
+
+  it('stops on errors listening again would not fix', () => {
+    const engine = sessionsEngine([{ tag: 'error', error: 'not-allowed', message: 'denied' }], [])
+    const error = jest.fn()
+    recognition.use({ engine }).session().subscribe({ error })
+
+    jest.advanceTimersByTime(60000)
+    expect(error).toHaveBeenCalledWith(expect.any(PermissionDeniedError))
+    expect(engine.start).toHaveBeenCalledTimes(1)
+  })
+
+  it('gives up after maxRetries failures in a row', () => {
+    const engine = sessionsEngine([noSpeech], [noSpeech], [noSpeech], [])
+    const error = jest.fn()
+    recognition.use({ engine }).session({ maxRetries: 2, retryDelay: 10 }).subscribe({ error })
+
+    jest.advanceTimersByTime(60000)
+    expect(error).toHaveBeenCalledWith(expect.any(RecognitionError))
+    expect(error.mock.calls[0][0]).toMatchObject({ code: 'no-speech' })
+    expect(engine.start).toHaveBeenCalledTimes(3)
+  })
+
+  it('stops listening when unsubscribed', () => {
+    const engine = sessionsEngine([noSpeech], [])
+    const subscription = recognition.use({ engine }).session().subscribe({})
+
+    subscription.unsubscribe()
+    jest.advanceTimersByTime(60000)
+    expect(engine.start).toHaveBeenCalledTimes(1)
+  })
+})
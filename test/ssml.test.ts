@@ -0,0 +1,72 @@
+import { parseSsml } from '../src/ssml'
+
+const text = { rate: 1, pitch: 1, volume: 1, voice: {} }
+
+describe('parseSsml', () => {
+  it('splits text around breaks and marks', () => {
+    expect(
+      parseSsml('<speak>Hello <break time="1.5s"/> <mark name="here"/>world &amp; all</speak>')
+    ).toEqual([
+      { tag: 'text', text: 'Hello ', ...text },
+      { tag: 'break', time: 1500 },
+      { tag: 'mark', name: 'here' },
+      { tag: 'text', text: 'world & all', ...text },
+    ])
+  })
+
+  it('uses break strength when there is no time', () => {
+    expect(parseSsml('<break strength="x-strong"/><break/>')).toEqual([
+      { tag: 'break', time: 1000 },
+      { tag: 'break', time: 500 },
+    ])
+  })
+
+  it('multiplies nested prosody', () => {
+    expect(
+      parseSsml(
+        '<prosody rate="slow" volume="50%"><prosody rate="+100%" pitch="high">Hi</prosody></prosody>'
+      )
+    ).toEqual([{ tag: 'text', text: 'Hi', rate: 1.5, pitch: 1.25, volume: 0.5, voice: {} }])
+  })
+
+  it('ignores attribute values named like object properties', () => {
+    expect(
+      parseSsml(
+        '<prosody rate="toString"><emphasis level="constructor">Hi</emphasis></prosody><break strength="valueOf"/>'
+      )
+    ).toEqual([
+      { tag: 'text', text: 'Hi', rate: 0.9, pitch: 1.1, volume: 1, voice: {} },
+      { tag: 'break', time: 500 },
+    ])
+  })
+
+  it('selects voices by name and language, not by the document language', () => {
+    expect(
+      parseSsml(
+        '<speak xml:lang="fr-FR">Bonjour <voice name="Daniel" lang="en-GB">Hello</voice></speak>'
+      )
+    ).toEqual([
+      { tag: 'text', text: 'Bonjour ', ...text },
+      { tag: 'text', text: 'Hello', ...text, voice: { name: 'Daniel', lang: 'en-GB' } },
+    ])
+  })
+
+  it('spells out say-as characters and digits', () => {
+    expect(
+      parseSsml(
+        '<say-as interpret-as="characters">abc</say-as> <say-as interpret-as="digits">123</say-as>'
+      )
+    ).toEqual([{ tag: 'text', text: 'a b c 1 2 3', ...text }])
+  })
+
+  it('keeps the text of unknown elements', () => {
+    expect(parseSsml('<speak><p><s>One</s> <s>two</s></p></speak>')).toEqual([
+      { tag: 'text', text: 'One two', ...text },
+    ])
+  })
+
+  it('throws on malformed markup', () => {
+    expect(() => parseSsml('<speak><prosody>Hi</speak>')).toThrow('Invalid SSML')
+    expect(() => parseSsml('<speak>Hi')).toThrow('Invalid SSML')
+  })
+})
@@ -0,0 +1,251 @@
+import { EngineCallbacks, EngineUtterance, SynthesisEngine } from '../src/engine'
+import { AbortError, SynthesisError, TimeoutError, VoiceNotFoundError } from '../src/errors'
+import { SynthesisEvent, synthesis } from '../src/synthesis'
+
+const fakeEngine = (
+  voices: SpeechSynthesisVoice[] = [
+    { name: 'Fake', lang: 'en-US', localService: true, default: true, voiceURI: 'fake' },
+  ]
+) => {
+  const spoken: EngineUtterance[] = []
+  let pending: EngineCallbacks | undefined
+
+  const engine: SynthesisEngine = {
+    getVoices: async () => voices,
+    speak: (utterance, callbacks) => {
+      spoken.push(utterance)
+      pending = callbacks
+      setTimeout(() => pending === callbacks && callbacks.onend())
+    },
+    cancel: () => (pending = undefined),
+    pause: () => {},
+    resume: () => {},
+  }
+
+  return { engine, spoken }
+}
+
+describe('engines', () => {
+  it('speaks through the engine given to use', async () => {
+    const { engine, spoken } = fakeEngine()
+    const result = await synthesis
+      .use({ engine, rate: 2, chunkLength: 12 })
+      .speak('One. Two. Three.')
+
+    expect(result.status).toBe('completed')
+    expect(spoken.map(u => u.text)).toEqual(['One. Two. ', 'Three.'])
+    expect(spoken[0]).toMatchObject({ rate: 2, voice: { name: 'Fake' } })
+  })
+
+  it('takes voices from the engine', async () => {
+    const { engine } = fakeEngine()
+    expect((await synthesis.use({ engine }).getVoices()).map(v => v.name)).toEqual(['Fake'])
+  })
+
+  it('cancels on the engine', async () => {
+    const { engine, spoken } = fakeEngine()
+    const speech = synthesis.use({ engine }).speak('Never finished')
+    speech.cancel()
+
+    expect((await speech).status).toBe('cancelled')
+    expect(spoken.length).toBeLessThanOrEqual(1)
+  })
+
+  it('queues each engine on its own', async () => {
+    const { engine } = fakeEngine()
+    const stuck: SynthesisEngine = {
+      ...fakeEngine().engine,
+      getVoices: () => new Promise(() => {}),
+    }
+
+    const never = synthesis.use({ engine: stuck }).speak('Waiting for voices')
+    expect((await synthesis.use({ engine }).speak('Hi')).status).toBe('completed')
+    never.cancel()
+  })
+
+  it('queues engines sharing a key together', async () => {
+    const queueKey = {}
+    const first = manualEngine()
+    const second = manualEngine()
+
+    const one = synthesis.use({ engine: { ...first.engine, queueKey } }).speak('One')
+    synthesis.use({ engine: { ...second.engine, queueKey } }).speak('Two')
+    await flush()
+    expect(second.calls).toEqual([])
+
+    first.callbacks().onend()
+    await one
+    await flush()
+    expect(second.calls).toEqual(['speak Two'])
+  })
+
+  it('picks the voices of SSML by prefix, leaving the instance voice to the rest', async () => {
+    const voice = (name: string, lang: string) =>
+      ({ name, lang, localService: true, default: false, voiceURI: name } as SpeechSynthesisVoice)
+    const { engine, spoken } = fakeEngine([voice('Daniel', 'en-GB'), voice('Amelie', 'fr_CA')])
+
+    await synthesis
+      .use({ engine, name: 'Daniel' })
+      .speakSsml(
+        '<speak xml:lang="en-US">Hello <voice lang="fr">Bonjour</voice> <voice name="Nobody">Bye</voice></speak>'
+      )
+
+    expect(spoken.map(u => `${u.text.trim()} ${u.voice?.name}`)).toEqual([
+      'Hello Daniel',
+      'Bonjour Amelie',
+      'Bye Daniel',
+    ])
+  })
+
+  it('rejects with typed errors', async () => {
+    const { engine } = fakeEngine()
+    const failing = {
+      ...engine,
+      speak: (_: unknown, { onerror }: EngineCallbacks) => onerror({ error: 'network' }),
+    }
+
+    const error = await synthesis
+      .use({ engine: failing, rate: 3 })
+      .speak('Hi')
+      .catch(e => e)
+
+    expect(error).toBeInstanceOf(SynthesisError)
+    expect(error).toMatchObject({ code: 'network', recoverable: true, options: { rate: 3 } })
+    await expect(synthesis.use({ engine, name: 'Missing' }).speak('Hi')).rejects.toBeInstanceOf(
+      VoiceNotFoundError
+    )
+  })
+
+  it('gives up with the abort options', async () => {
+    const cancel = jest.fn()
+    const silent: SynthesisEngine = { ...fakeEngine().engine, speak: () => {}, cancel }
+
+    const error = await synthesis
+      .use({ engine: silent, timeout: 10 })
+      .speak('Never ends')
+      .catch(e => e)
+    expect(error).toBeInstanceOf(TimeoutError)
+    expect(cancel).toHaveBeenCalled()
+
+    const controller = new AbortController()
+    controller.abort()
+    await expect(
+      synthesis.use({ engine: silent, signal: controller.signal }).speak('Aborted')
+    ).rejects.toBeInstanceOf(AbortError)
+
+    const result = await synthesis.use({ engine: silent, maxDuration: 10 }).speak('Cut short')
+    expect(result.status).toBe('cancelled')
+  })
+})
+
+/** Speaks until told, reporting what the handle asked of it */
+const manualEngine = () => {
+  const calls: string[] = []
+  let current: EngineCallbacks | undefined
+
+  const engine: SynthesisEngine = {
+    ...fakeEngine().engine,
+    speak: (utterance, callbacks) => {
+      calls.push(`speak ${utterance.text}`)
+      current = callbacks
+    },
+    cancel: () => calls.push('cancel'),
+    pause: () => calls.push('pause'),
+    resume: () => calls.push('resume'),
+  }
+
+  return { engine, calls, callbacks: () => current! }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve))
+
+describe('SpeechHandle', () => {
+  it('pauses and resumes once started', async () => {
+    const { engine, calls, callbacks } = manualEngine()
+    const speech = synthesis.use({ engine }).speak('Hello there')
+
+    speech.pause()
+    await flush()
+    speech.pause()
+    speech.pause()
+    speech.resume()
+    speech.resume()
+    callbacks().onend()
+
+    expect((await speech).status).toBe('completed')
+    expect(calls).toEqual(['speak Hello there', 'pause', 'resume'])
+  })
+
+  it('cancels one handle while the others stay queued', async () => {
+    const { engine, calls, callbacks } = manualEngine()
+    const speaking = synthesis.use({ engine }).speak('One')
+    const queued = synthesis.use({ engine }).speak('Two')
+    const last = synthesis.use({ engine }).speak('Three')
+
+    queued.cancel()
+    expect(await queued).toEqual({ status: 'cancelled', elapsedTime: 0, charIndex: 0 })
+
+    await flush()
+    callbacks().onend()
+    await flush()
+    callbacks().onend()
+
+    expect((await speaking).status).toBe('completed')
+    expect((await last).status).toBe('completed')
+    expect(calls).toEqual(['speak One', 'speak Three'])
+  })
+
+  it('keeps the last boundary reached in the result', async () => {
+    const { engine, callbacks } = manualEngine()
+    const speech = synthesis.use({ engine }).speak('Hello big world')
+
+    await flush()
+    callbacks().onboundary({ name: 'word', charIndex: 6, charLength: 0 })
+    expect(speech.charIndex).toBe(6)
+    speech.cancel()
+
+    expect(await speech).toMatchObject({
+      status: 'cancelled',
+      charIndex: 6,
+      boundary: { name: 'word', charIndex: 6, charLength: 3, text: 'big' },
+    })
+  })
+})
+
+describe('subscribe', () => {
+  it('emits start, boundary, mark and end', async () => {
+    const { engine, callbacks } = manualEngine()
+    const events: SynthesisEvent[] = []
+    const complete = new Promise(resolve =>
+      synthesis
+        .use({ engine, text: 'Hello world' })
+        .subscribe({ next: e => events.push(e), complete: () => resolve(undefined) })
+    )
+
+    await flush()
+    callbacks().onboundary({ name: 'word', charIndex: 6, charLength: 5 })
+    callbacks().onmark({ name: 'here', charIndex: 6 })
+    callbacks().onend()
+    await complete
+
+    expect(events.map(({ elapsedTime, ...e }) => e)).toEqual([
+      { tag: 'start', charIndex: 0 },
+      { tag: 'boundary', name: 'word', charIndex: 6, charLength: 5, text: 'world' },
+      { tag: 'mark', name: 'here', charIndex: 6 },
+      { tag: 'end', charIndex: 11 },
+    ])
+  })
+
+  it('cancels when unsubscribed', async () => {
+    const { engine, calls } = manualEngine()
+    const next = jest.fn()
+    const subscription = synthesis.use({ engine, text: 'Hello' }).subscribe({ next })
+
+    await flush()
+    subscription.unsubscribe()
+    await flush()
+
+    expect(calls).toEqual(['speak Hello', 'cancel'])
+    expect(next.mock.calls.map(([e]) => e.tag)).toEqual(['start'])
+  })
+})
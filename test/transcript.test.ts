@@ -0,0 +1,81 @@
+import { createWebRecognitionEngine, WebRecognitionTarget } from '../src/engine'
+import { RecognitionEvent } from '../src/recognition'
+import { transcript } from '../src/transcript'
+
+const result = (
+  tag: 'interim' | 'final',
+  transcript: string,
+  index?: number
+): RecognitionEvent => ({
+  tag,
+  alternatives: [{ transcript, confidence: 0.9 }],
+  index,
+})
+
+describe('transcript', () => {
+  it('gets every changed result from the browser', () => {
+    const results = [
+      Object.assign([{ transcript: 'hello there', confidence: 0.9 }], { isFinal: true }),
+      Object.assign([{ transcript: ' how are', confidence: 0.8 }], { isFinal: true }),
+      Object.assign([{ transcript: ' you', confidence: 0.5 }], { isFinal: false }),
+    ]
+    class SpeechRecognition extends EventTarget {
+      start = () =>
+        this.dispatchEvent(Object.assign(new Event('result'), { resultIndex: 1, results }))
+    }
+    const emit = jest.fn()
+
+    createWebRecognitionEngine({
+      SpeechRecognition: SpeechRecognition as unknown as WebRecognitionTarget['SpeechRecognition'],
+    }).start({ lang: 'en-US', continuous: true, interimResults: true, maxAlternatives: 1 }, emit)
+    expect(emit.mock.calls).toEqual([
+      [{ tag: 'final', alternatives: [{ transcript: ' how are', confidence: 0.8 }], index: 1 }],
+      [{ tag: 'interim', alternatives: [{ transcript: ' you', confidence: 0.5 }], index: 2 }],
+    ])
+  })
+
+  it('splits committed text from the volatile tail', () => {
+    const notes = transcript()
+
+    expect(notes.apply({ tag: 'start' })).toEqual([])
+    expect(notes.apply(result('interim', 'hello', 0))).toEqual([
+      { tag: 'insert', at: 0, text: 'hello' },
+    ])
+    expect(notes.apply(result('interim', 'hello word', 0))).toEqual([
+      { tag: 'insert', at: 5, text: ' word' },
+    ])
+    expect(notes.apply(result('final', 'hello world', 0))).toEqual([
+      { tag: 'insert', at: 9, text: 'l' },
+    ])
+    notes.apply(result('interim', ' how', 1))
+    notes.apply(result('interim', ' are you', 2))
+
+    expect(notes.committed).toBe('hello world')
+    expect(notes.tail).toBe('how are you')
+    expect(notes.text).toBe('hello world how are you')
+
+    // the browser merged the two interim results into one
+    expect(notes.apply(result('interim', ' how are you', 1))).toEqual([])
+    expect(notes.segments).toHaveLength(2)
+    expect(notes.apply(result('final', ' how are you doing', 1))).toEqual([
+      { tag: 'insert', at: 23, text: ' doing' },
+    ])
+    expect(notes.tail).toBe('')
+  })
+
+  it('drops what was never final when a session ends', () => {
+    const notes = transcript()
+
+    notes.apply(result('final', 'first', 0))
+    notes.apply(result('interim', 'second', 1))
+    expect(notes.apply({ tag: 'end' })).toEqual([{ tag: 'replace', from: 5, to: 12, text: '' }])
+
+    // results of the next session start over at index 0
+    notes.apply({ tag: 'start' })
+    notes.apply(result('final', 'third', 0))
+    // engines without an index replace everything since the last final
+    notes.apply(result('interim', 'four'))
+    notes.apply(result('final', 'fourth'))
+    expect(notes.text).toBe('first third fourth')
+  })
+})
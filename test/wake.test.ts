@@ -0,0 +1,96 @@
+import { RecognitionEngine } from '../src/engine'
+import { PermissionDeniedError } from '../src/errors'
+import { recognition, RecognitionEvent } from '../src/recognition'
+import { WakeEvent, wakeWord } from '../src/wake'
+
+const final = (...transcripts: string[]): RecognitionEvent => ({
+  tag: 'final',
+  alternatives: transcripts.map(transcript => ({ transcript, confidence: 0.9 })),
+})
+
+/** Each session emits its script then ends, like the browser timing out */
+const sessionsEngine = (...sessions: RecognitionEvent[][]) => {
+  const engine: RecognitionEngine = {
+    start: jest.fn((_, emit) => {
+      ;(sessions.shift() ?? []).forEach(emit)
+      emit({ tag: 'end' })
+      return { stop: jest.fn(), abort: jest.fn() }
+    }),
+  }
+  return engine
+}
+
+const listening = (engine: RecognitionEngine, followUp = 5000) => {
+  const events: WakeEvent[] = []
+  const error = jest.fn()
+  const subscription = wakeWord({
+    phrase: 'hey console',
+    followUp,
+    recognition: recognition.use({ engine }),
+  }).subscribe({ next: e => events.push(e), error })
+  return { events, error, subscription }
+}
+
+describe('wakeWord', () => {
+  beforeEach(() => jest.useFakeTimers())
+  afterEach(() => jest.useRealTimers())
+
+  it('only lets through what follows the phrase', () => {
+    const engine = sessionsEngine([
+      final('turn the lights off'),
+      final('hey consul, turn the lights on', 'a console turn the lights on'),
+    ])
+    const { events, subscription } = listening(engine, 0)
+
+    expect(engine.start).toHaveBeenCalledWith(
+      expect.objectContaining({ continuous: true }),
+      expect.any(Function)
+    )
+    expect(events).toEqual([
+      {
+        tag: 'utterance',
+        alternatives: [
+          { transcript: 'turn the lights on', confidence: 0.9 },
+          { transcript: 'turn the lights on', confidence: 0.9 },
+        ],
+        followUp: false,
+      },
+    ])
+    subscription.unsubscribe()
+  })
+
+  it('takes the next utterance within the follow-up window', () => {
+    const engine = sessionsEngine(
+      [final('hey console'), final('open the logs')],
+      [final('and close them')]
+    )
+    const { events, subscription } = listening(engine)
+
+    expect(events).toEqual([
+      { tag: 'wake', phrase: 'hey console', transcript: 'hey console' },
+      expect.objectContaining({ tag: 'utterance', followUp: true }),
+    ])
+
+    // the session heard something, it listens again right away and the window is still open
+    jest.advanceTimersByTime(0)
+    expect(events[2]).toEqual(
+      expect.objectContaining({
+        alternatives: [{ transcript: 'and close them', confidence: 0.9 }],
+        followUp: true,
+      })
+    )
+
+    jest.advanceTimersByTime(5000)
+    expect(events[3]).toEqual({ tag: 'sleep' })
+    subscription.unsubscribe()
+  })
+
+  it('stops on errors listening again would not fix', () => {
+    const engine = sessionsEngine([{ tag: 'error', error: 'not-allowed', message: 'denied' }])
+    const { error } = listening(engine)
+
+    jest.advanceTimersByTime(1000)
+    expect(error).toHaveBeenCalledWith(expect.any(PermissionDeniedError))
+    expect(engine.start).toHaveBeenCalledTimes(1)
+  })
+})